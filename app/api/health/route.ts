@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getCacheStats } from "@/lib/tfl/cache"
+import { getTflMode } from "@/lib/tfl/fixtures"
+import { getRecentUpstreamErrorRate, getUptimeSeconds } from "@/lib/tfl/metrics"
+
+// Is this server up, and is TfL answering it? Always 200 while the process
+// runs; "degraded" means boards are slow or empty because of TfL, not us.
+export const dynamic = "force-dynamic"
+
+// Share of failed TfL calls over the last few minutes that counts as degraded
+const DEGRADED_ERROR_RATE = 0.2
+
+export async function GET() {
+  const { calls, errorRate } = getRecentUpstreamErrorRate()
+  const degraded = errorRate !== null && errorRate >= DEGRADED_ERROR_RATE
+
+  return NextResponse.json(
+    {
+      status: degraded ? "degraded" : "ok",
+      tflMode: getTflMode(),
+      uptimeSeconds: getUptimeSeconds(),
+      upstream: { recentCalls: calls, recentErrorRate: errorRate },
+      cacheHitRatio: getCacheStats().hitRatio,
+    },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
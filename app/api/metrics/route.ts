@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getCacheStats } from "@/lib/tfl/cache"
+import { getMetrics } from "@/lib/tfl/metrics"
+
+// Latency percentiles and status counts for our routes and the TfL calls
+// behind them, plus how much the cache saves. Per server instance.
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return NextResponse.json(
+    { ...getMetrics(), cache: getCacheStats() },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -1,35 +1,36 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getBusArrivals, getBusArrivalsForStops } from "@/lib/tfl/arrivals"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { isGroupId } from "@/lib/tfl/stops"
 
-export async function GET(request: NextRequest) {
+// A whole interchange can have a dozen stop letters; anything beyond that is
+// not one place
+const MAX_STOP_IDS = 20
+
+export const GET = withMetrics("/api/tfl/arrivals", async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const stopId = searchParams.get("stopId")
+  const groupId = searchParams.get("groupId")
+  const stopIds = (searchParams.get("stopIds") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
 
-  if (!stopId) {
-    return NextResponse.json({ error: "Stop ID is required" }, { status: 400 })
+  if (!stopId && !groupId && stopIds.length === 0) {
+    return invalidParams("Stop ID is required")
+  }
+  if (groupId && !isGroupId(groupId)) {
+    return invalidParams("groupId must be a stop group ID, e.g. 490G00000000")
+  }
+  if (stopIds.length > MAX_STOP_IDS) {
+    return invalidParams(`At most ${MAX_STOP_IDS} stopIds per request`)
   }
 
   try {
-    const response = await fetch(`https://api.tfl.gov.uk/StopPoint/${stopId}/Arrivals`, {
-      headers: {
-        "Cache-Control": "no-cache",
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`TfL API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    // Transform the data to match our interface
-    const transformedArrivals = data.map((arrival: any) => ({
-      id: arrival.id,
-      lineName: arrival.lineName,
-      destinationName: arrival.destinationName,
-      timeToStation: arrival.timeToStation,
-      expectedArrival: arrival.expectedArrival,
-      vehicleId: arrival.vehicleId,
-    }))
+    // stopId may itself be a group ID; getBusArrivals expands it
+    const transformedArrivals =
+      stopIds.length > 0 ? await getBusArrivalsForStops(stopIds) : await getBusArrivals((groupId ?? stopId) as string)
 
     return NextResponse.json(transformedArrivals, {
       headers: {
@@ -38,6 +39,6 @@ export async function GET(request: NextRequest) {
     })
   } catch (error) {
     console.error("TfL Arrivals API error:", error)
-    return NextResponse.json({ error: "Failed to get arrival times" }, { status: 500 })
+    return upstreamError(error, "Failed to get arrival times", "STOP_NOT_FOUND")
   }
-}
+})
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getStopDisruptionsSummary } from "@/lib/tfl/disruptions"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+
+export const GET = withMetrics("/api/tfl/disruptions", async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const stopId = searchParams.get("stopId")
+  const lineIds = (searchParams.get("lines") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (!stopId) {
+    return invalidParams("Stop ID is required")
+  }
+
+  try {
+    const disruptions = await getStopDisruptionsSummary(stopId, lineIds)
+
+    return NextResponse.json(disruptions, {
+      headers: {
+        "Cache-Control": "public, s-maxage=60, stale-while-revalidate=60",
+      },
+    })
+  } catch (error) {
+    console.error("TfL Disruptions API error:", error)
+    return upstreamError(error, "Failed to get disruptions", "STOP_NOT_FOUND")
+  }
+})
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { getTypicalHeadways } from "@/lib/tfl/headways"
+import { withMetrics } from "@/lib/tfl/metrics"
+
+// Stop IDs name history files on disk, so nothing but letters and digits
+const STOP_ID_PATTERN = /^[0-9A-Z]{4,16}$/i
+
+export const GET = withMetrics("/api/tfl/headways", async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const stopId = searchParams.get("stopId")
+  const lineIds = (searchParams.get("lines") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (!stopId || !STOP_ID_PATTERN.test(stopId)) {
+    return invalidParams("A valid stop ID is required")
+  }
+
+  try {
+    const lines = await getTypicalHeadways(stopId, lineIds)
+
+    return NextResponse.json(
+      { lines },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      },
+    )
+  } catch (error) {
+    console.error("Typical headways error:", error)
+    return upstreamError(error, "Failed to get typical headways", "STOP_NOT_FOUND")
+  }
+})
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { planBusJourney } from "@/lib/tfl/journeys"
+
+export const GET = withMetrics("/api/tfl/journey", async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const from = searchParams.get("from")?.trim()
+  const to = searchParams.get("to")?.trim()
+
+  if (!from || !to) {
+    return invalidParams("Both from and to are required")
+  }
+
+  try {
+    const journeys = await planBusJourney(from, to)
+
+    return NextResponse.json({ journeys }, {
+      headers: { "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    console.error("TfL Journey API error:", error)
+    return upstreamError(error, "Failed to plan journey")
+  }
+})
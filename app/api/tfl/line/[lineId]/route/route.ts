@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { getLineRoute } from "@/lib/tfl/lines"
+import { withMetrics } from "@/lib/tfl/metrics"
+
+export const GET = withMetrics("/api/tfl/line/[lineId]/route", async function GET(_request: NextRequest, { params }: { params: Promise<{ lineId: string }> }) {
+  const { lineId } = await params
+
+  if (!lineId) {
+    return invalidParams("Line ID is required")
+  }
+
+  try {
+    const route = await getLineRoute(lineId)
+
+    return NextResponse.json(route, {
+      headers: {
+        // Route geometry only changes with timetable updates
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+      },
+    })
+  } catch (error) {
+    console.error("TfL Line Route API error:", error)
+    return upstreamError(error, "Failed to get line route")
+  }
+})
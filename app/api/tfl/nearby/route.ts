@@ -1,61 +1,84 @@
 import { type NextRequest, NextResponse } from "next/server"
+import {
+  DEFAULT_NEARBY_RADIUS_M,
+  MAX_NEARBY_RADIUS_M,
+  queryNearbyStops,
+  type NearbyArea,
+} from "@/lib/tfl/nearby"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
 
-export async function GET(request: NextRequest) {
+const MIN_RADIUS_M = 50
+const MAX_LIMIT = 100
+
+// "swLat,swLon,neLat,neLon"
+function parseBbox(raw: string) {
+  const parts = raw.split(",").map(Number)
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return null
+  const [swLat, swLon, neLat, neLon] = parts
+  if (swLat >= neLat || swLon >= neLon) return null
+  return { swLat, swLon, neLat, neLon }
+}
+
+const parseCount = (raw: string | null) => {
+  if (raw === null) return undefined
+  const n = Number(raw)
+  return Number.isInteger(n) && n >= 0 ? n : NaN
+}
+
+export const GET = withMetrics("/api/tfl/nearby", async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const lat = searchParams.get("lat")
   const lng = searchParams.get("lng")
-  const radius = searchParams.get("radius") || "1000"
+  const bboxParam = searchParams.get("bbox")
+  const lines = (searchParams.get("lines") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+  const limit = parseCount(searchParams.get("limit"))
+  const offset = parseCount(searchParams.get("offset"))
+
+  let area: NearbyArea
+  if (bboxParam) {
+    const bbox = parseBbox(bboxParam)
+    if (!bbox) {
+      return invalidParams("bbox must be swLat,swLon,neLat,neLon")
+    }
+    area = { bbox }
+  } else {
+    if (!lat || !lng || !Number.isFinite(Number(lat)) || !Number.isFinite(Number(lng))) {
+      return invalidParams("Latitude and longitude are required")
+    }
+    const radius = Number(searchParams.get("radius") || DEFAULT_NEARBY_RADIUS_M)
+    if (!Number.isFinite(radius)) {
+      return invalidParams("radius must be a number of metres")
+    }
+    area = {
+      lat: Number(lat),
+      lon: Number(lng),
+      radius: Math.min(MAX_NEARBY_RADIUS_M, Math.max(MIN_RADIUS_M, Math.round(radius))),
+    }
+  }
 
-  if (!lat || !lng) {
-    return NextResponse.json({ error: "Latitude and longitude are required" }, { status: 400 })
+  if (Number.isNaN(limit) || Number.isNaN(offset)) {
+    return invalidParams("limit and offset must be non-negative integers")
   }
 
   try {
-    // Use the same API endpoint structure as your working JavaScript code
-    const response = await fetch(
-      `https://api.tfl.gov.uk/StopPoint?stopTypes=NaptanPublicBusCoachTram&radius=${radius}&lat=${lat}&lon=${lng}`,
-      {
-        headers: {
-          "Cache-Control": "no-cache",
-        },
-      },
-    )
+    const page = await queryNearbyStops(area, {
+      lines,
+      limit: limit === undefined ? undefined : Math.min(limit, MAX_LIMIT),
+      offset,
+    })
 
-    if (!response.ok) {
-      throw new Error(`TfL API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    // Transform the data to match our interface, using the same structure as your JS code
-    const transformedStops =
-      data.stopPoints?.map((stop: any) => {
-        // Calculate walking time like in your JS code (1.4 m/s walking speed)
-        const walkingTimeMinutes = Math.round(stop.distance / 1.4 / 60)
-
-        return {
-          id: stop.naptanId || stop.id,
-          commonName: stop.commonName,
-          lat: stop.lat,
-          lon: stop.lon,
-          distance: stop.distance,
-          walkingTime: walkingTimeMinutes,
-          indicator: stop.indicator,
-          // Include additional properties for "towards" information
-          additionalProperties: stop.additionalProperties || [],
-        }
-      }) || []
-
-    return NextResponse.json({ stopPoints: transformedStops },
-      {
-        headers: {
-          // Cache nearby stops for 30 seconds (they don't move!)
-          "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60",
-        },
-      }
-    )
+    return NextResponse.json(page, {
+      headers: {
+        // Cache nearby stops for 30 seconds (they don't move!)
+        "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60",
+      },
+    })
   } catch (error) {
     console.error("TfL Nearby API error:", error)
-    return NextResponse.json({ error: "Failed to find nearby bus stops" }, { status: 500 })
+    return upstreamError(error, "Failed to find nearby bus stops")
   }
-}
+})
@@ -1,152 +1,184 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { getStopPoint, getStopPoints, searchStopPoints } from "@/lib/tfl/client";
+import { geocode, type PlaceSearchResult } from "@/lib/geocode";
+import { invalidParams, upstreamError } from "@/lib/tfl/errors";
+import { withMetrics } from "@/lib/tfl/metrics";
+import { findLine } from "@/lib/tfl/lines";
+import { distanceMetres, getNearbyStops, walkingMinutes } from "@/lib/tfl/nearby";
+import { detectStopCode, extractIndicator, extractTowards, isGroupId, resolveStopCode } from "@/lib/tfl/stops";
+import type { StopPoint } from "@/lib/tfl/types";
+
+// Same radius the nearby list uses for the user's own position
+const PLACE_RADIUS_M = 500;
+
+// Stops around a postcode or named place in the query, if it is one
+async function findPlace(query: string, signal: AbortSignal): Promise<PlaceSearchResult | null> {
+  if (detectStopCode(query)) return null;
+  const place = await geocode(query, { signal });
+  if (!place) return null;
+  const stops = await getNearbyStops(place.lat, place.lon, PLACE_RADIUS_M, { signal });
+  return stops.length > 0 ? { ...place, stops } : null;
+}
 
-// Make this route fully dynamic (no Next.js Data Cache / Edge cache)
-export const revalidate = 0; // Alternatively: export const dynamic = 'force-dynamic';
+// One budget for the whole search: the text search, stop details and each
+// group lookup run one after another, the line, code and place lookups
+// alongside, and retries shouldn't stretch any of that
+const SEARCH_DEADLINE_MS = 5000;
 
-const TFL_BASE = "https://api.tfl.gov.uk";
-const APP_ID = process.env.TFL_APP_ID;
-const APP_KEY = process.env.TFL_APP_KEY;
+// Stops within this walk of the user outrank better text matches further away
+const WALKABLE_M = 800;
 
-// Build a TfL URL with query params + app keys (better rate limits)
-function tflUrl(path: string, params: Record<string, string | number | undefined> = {}) {
-  const url = new URL(path, TFL_BASE);
-  for (const [k, v] of Object.entries(params)) {
-    if (v !== undefined && v !== null) url.searchParams.set(k, String(v));
-  }
-  if (APP_ID && APP_KEY) {
-    url.searchParams.set("app_id", APP_ID);
-    url.searchParams.set("app_key", APP_KEY);
-  }
-  return url.toString();
-}
+type Origin = { lat: number; lon: number };
 
-// Heuristic: 4th char 'G' => group ID (e.g., 490G...), '0' => actual stop
-function isGroupId(id: string) {
-  return id.length >= 4 && id[3].toUpperCase() === "G";
+function parseOrigin(searchParams: URLSearchParams): Origin | null {
+  const lat = Number(searchParams.get("lat"));
+  const lon = Number(searchParams.get("lon"));
+  if (!searchParams.has("lat") || !searchParams.has("lon") || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return null;
+  }
+  return { lat, lon };
 }
 
-type StopPoint = {
-  id: string;
-  naptanId?: string;
-  commonName: string;
-  lat?: number;
-  lon?: number;
-  distance?: number;
-  modes?: string[];
-  indicator?: string;
-  lines?: { id: string; name: string }[];
-  additionalProperties?: { key: string; value: string }[];
-  children?: StopPoint[];
-};
-
-function extractIndicator(raw?: string | null): string | null {
-  if (!raw) return null;
-  return raw.replace(/^Stop\s+/i, "").trim() || null;
-}
+// Make this route fully dynamic (no Next.js Data Cache / Edge cache)
+export const revalidate = 0; // Alternatively: export const dynamic = 'force-dynamic';
 
-function extractTowards(stop: StopPoint): string | null {
-  const prop = (stop.additionalProperties ?? []).find((p) => p.key === "Towards");
-  return prop?.value ?? null;
-}
+function toResult(stop: StopPoint, parentGroupId?: string, exact = false, origin: Origin | null = null) {
+  // Distance from the user, when we know where they are
+  const distance =
+    origin && stop.lat !== undefined && stop.lon !== undefined
+      ? Math.round(distanceMetres(origin, { lat: stop.lat, lon: stop.lon }))
+      : null;
 
-function toResult(stop: StopPoint, parentGroupId?: string) {
   return {
     id: stop.naptanId || stop.id,
     commonName: stop.commonName,
     lat: stop.lat,
     lon: stop.lon,
-    distance: stop.distance ?? null,
+    distance,
+    walkingTime: distance !== null ? walkingMinutes(distance) : null,
     indicator: extractIndicator(stop.indicator),
     towards: extractTowards(stop),
     // Use line names and cap for UI
     lines: (stop.lines ?? []).map((l) => l.name).slice(0, 4),
     parentGroupId: parentGroupId ?? null,
+    smsCode: stop.smsCode ?? null,
+    // resolved straight from an SMS or ATCO code in the query
+    exact,
     type: "stop" as const,
   };
 }
 
-async function fetchJson<T>(url: string, signal: AbortSignal): Promise<T> {
-  const res = await fetch(url, {
-    signal,
-    cache: "no-store", // important — avoid Next/Vercel cache for this dynamic handler
-    headers: { "Cache-Control": "no-cache" }, // defensive
+type SearchResult = ReturnType<typeof toResult>;
+
+// Walkable stops first, nearest first; then TfL's relevance order, with stops
+// that share a name (both sides of the road, other branches) nearest first
+function rankByProximity(results: SearchResult[]) {
+  const nameRank = new Map<string, number>();
+  results.forEach((r, i) => {
+    if (!nameRank.has(r.commonName)) nameRank.set(r.commonName, i);
+  });
+
+  const walkable = (r: SearchResult) => r.distance !== null && r.distance <= WALKABLE_M;
+
+  return [...results].sort((a, b) => {
+    if (walkable(a) !== walkable(b)) return walkable(a) ? -1 : 1;
+    if (walkable(a)) return (a.distance ?? 0) - (b.distance ?? 0);
+    const byName = (nameRank.get(a.commonName) ?? 0) - (nameRank.get(b.commonName) ?? 0);
+    if (byName !== 0) return byName;
+    return (a.distance ?? Infinity) - (b.distance ?? Infinity);
   });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`TfL ${res.status}: ${txt || res.statusText}`);
-  }
-  return res.json() as Promise<T>;
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withMetrics("/api/tfl/search", async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const query = searchParams.get("query")?.trim();
   if (!query) {
-    return NextResponse.json({ error: "Query parameter is required" }, { status: 400 });
+    return invalidParams("Query parameter is required");
   }
-
-  // Hard timeout to stop slow upstream requests
-  const ac = new AbortController();
-  const timeout = setTimeout(() => ac.abort(), 5000);
+  const origin = parseOrigin(searchParams);
+  const signal = AbortSignal.timeout(SEARCH_DEADLINE_MS);
 
   try {
-    // 1) Basic text search (limit) — constrained to bus mode
-    const searchUrl = tflUrl("/StopPoint/Search", {
-      query,
-      modes: "bus",
-      maxResults: 6,
-    });
-    const searchData = await fetchJson<{ matches?: StopPoint[] }>(searchUrl, ac.signal);
+    // 1) Basic text search (limit) — constrained to bus mode, alongside a
+    //    route lookup when the query looks like a line number ("73", "N29")
+    //    and a direct lookup when it looks like an SMS or ATCO stop code.
+    //    Only a query that is neither gets geocoded for the stops around a
+    //    postcode or place name, saving a TfL call per keystroke otherwise.
+    const lineAndCode = Promise.all([
+      findLine(query, { signal }).catch((error) => {
+        // a failed route lookup shouldn't cost us the stop results
+        console.error("TfL Search line lookup error:", error);
+        return null;
+      }),
+      resolveStopCode(query, { signal }).catch((error) => {
+        console.error("TfL Search stop code lookup error:", error);
+        return [];
+      }),
+    ]);
+    const [searchData, [line, coded], place] = await Promise.all([
+      searchStopPoints(query, { signal }),
+      lineAndCode,
+      lineAndCode.then(([line, coded]) =>
+        line || coded.length > 0
+          ? null
+          : findPlace(query, signal).catch((error) => {
+              console.error("TfL Search place lookup error:", error);
+              return null;
+            })
+      ),
+    ]);
     const matches = searchData.matches ?? [];
+    const lines = line ? [line] : [];
+    const places = place ? [place] : [];
+
+    // Exact code matches always rank first
+    const exactResults = coded.map(({ stop, parent }) =>
+      toResult(stop, parent ? parent.naptanId || parent.id : undefined, true, origin)
+    );
+    const exactIds = new Set(exactResults.map((r) => r.id));
 
     if (matches.length === 0) {
       return NextResponse.json(
-        { matches: [] },
+        { matches: exactResults, lines, places },
         { headers: { "Cache-Control": "no-store" } }
       );
     }
 
     // 2) Take top 5 and bulk fetch details
     const topMatches = matches.slice(0, 5);
-    const ids = topMatches.map((m) => m.id).join(",");
-
-    const detailsUrl = tflUrl(`/StopPoint/${ids}`);
-    const detailsData = await fetchJson<StopPoint | StopPoint[]>(detailsUrl, ac.signal);
-    const stopPoints: StopPoint[] = Array.isArray(detailsData) ? detailsData : [detailsData];
+    const stopPoints = await getStopPoints(topMatches.map((m) => m.id), { signal });
 
-    // 3) Expand groups into child stop points (E/W, etc.)
-    const expanded: StopPoint[] = [];
+    // 3) Expand groups into child stop points (E/W, etc.), remembering the
+    //    group so the UI can open the whole interchange
+    const expanded: { stop: StopPoint; parentGroupId?: string }[] = [];
     for (const sp of stopPoints) {
       if (isGroupId(sp.id)) {
         try {
-          const group = await fetchJson<StopPoint>(tflUrl(`/StopPoint/${sp.id}`), ac.signal);
+          const group = await getStopPoint(sp.id, { signal });
           const children = (group.children ?? []).filter((c) => (c.modes ?? []).includes("bus"));
-          // propagate distance from the group for ranking consistency
-          for (const child of children) expanded.push({ ...child, distance: sp.distance });
+          expanded.push(...children.map((stop) => ({ stop, parentGroupId: group.naptanId || group.id })));
         } catch {
           // don’t fail the whole search; skip this group
         }
       } else {
-        expanded.push(sp);
+        expanded.push({ stop: sp });
       }
     }
 
-    // 4) Transform output
-    const transformed = expanded.map((sp) => toResult(sp));
+    // 4) Transform output, ranking by distance from the user when we have it
+    const textResults = expanded
+      .map(({ stop, parentGroupId }) => toResult(stop, parentGroupId, false, origin))
+      .filter((r) => !exactIds.has(r.id));
+    const transformed = [...exactResults, ...(origin ? rankByProximity(textResults) : textResults)];
 
     // 5) Return dynamic (no-store) to avoid stale results in search
     return NextResponse.json(
-      { matches: transformed, stale: false },
+      { matches: transformed, lines, places },
       { headers: { "Cache-Control": "no-store" } }
     );
   } catch (error) {
     console.error("TfL Search API error:", error);
-    // Return a 200 with empty results + stale flag so UI can show a soft message
-    return NextResponse.json(
-      { matches: [], stale: true, error: "Failed to search bus stops" },
-      { headers: { "Cache-Control": "no-store" } }
-    );
-  } finally {
-    clearTimeout(timeout);
+    // A real error status, so the UI can tell "no results" from "TfL is down"
+    return upstreamError(error, "Failed to search bus stops");
   }
-}
+});
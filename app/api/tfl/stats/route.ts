@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { DEFAULT_RELIABILITY_DAYS, getStopReliability, MAX_RELIABILITY_DAYS } from "@/lib/tfl/reliability"
+
+// Stop IDs name files on disk, so nothing but letters and digits
+const STOP_ID_PATTERN = /^[0-9A-Z]{4,16}$/i
+
+export const GET = withMetrics("/api/tfl/stats", async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const stopId = searchParams.get("stopId")
+  const days = Number(searchParams.get("days") || DEFAULT_RELIABILITY_DAYS)
+
+  if (!stopId || !STOP_ID_PATTERN.test(stopId)) {
+    return invalidParams("A valid stop ID is required")
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RELIABILITY_DAYS) {
+    return invalidParams(`days must be a whole number from 1 to ${MAX_RELIABILITY_DAYS}`)
+  }
+
+  try {
+    const stats = await getStopReliability(stopId, days)
+
+    return NextResponse.json(stats, {
+      headers: {
+        // History grows by a few lines a minute at most
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    })
+  } catch (error) {
+    console.error("Reliability stats error:", error)
+    return upstreamError(error, "Failed to read arrival history")
+  }
+})
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiError, invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { getStopDetails } from "@/lib/tfl/stops"
+
+export const GET = withMetrics("/api/tfl/stop/[id]", async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  if (!id) {
+    return invalidParams("Stop ID is required")
+  }
+
+  try {
+    const stop = await getStopDetails(id)
+
+    if (!stop) {
+      return apiError("STOP_NOT_FOUND", "Stop not found")
+    }
+
+    return NextResponse.json(stop, {
+      headers: {
+        // Stop metadata rarely changes
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+      },
+    })
+  } catch (error) {
+    console.error("TfL Stop API error:", error)
+    return upstreamError(error, "Failed to get stop details", "STOP_NOT_FOUND")
+  }
+})
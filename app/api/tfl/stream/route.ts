@@ -0,0 +1,101 @@
+import type { NextRequest } from "next/server"
+import { getBusArrivals } from "@/lib/tfl/arrivals"
+import { getBusLocations } from "@/lib/tfl/buses"
+import { describeError, invalidParams } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+
+// Server-Sent Events: pushes arrivals and bus positions for one stop whenever
+// they change. Upstream calls go through the shared cache, so any number of
+// subscribers to the same stop cost the same as one.
+export const dynamic = "force-dynamic"
+
+const ARRIVALS_INTERVAL_MS = 10_000
+const BUSES_INTERVAL_MS = 15_000
+const HEARTBEAT_INTERVAL_MS = 20_000
+// Ask EventSource to wait this long before reconnecting
+const RECONNECT_DELAY_MS = 5_000
+
+export const GET = withMetrics("/api/tfl/stream", async function GET(request: NextRequest) {
+  const stopId = request.nextUrl.searchParams.get("stopId")
+
+  if (!stopId) {
+    return invalidParams("Stop ID is required")
+  }
+
+  const encoder = new TextEncoder()
+  const timers: ReturnType<typeof setInterval>[] = []
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        timers.forEach(clearInterval)
+        try {
+          controller.close()
+        } catch {
+          // already closed by the client
+        }
+      }
+
+      // Only push when the payload actually changed
+      const publisher = (event: string, load: () => Promise<unknown>) => {
+        let last: string | null = null
+        return async () => {
+          try {
+            const data = await load()
+            const serialized = JSON.stringify(data)
+            if (serialized === last) return
+            last = serialized
+            send(event, data)
+          } catch (error) {
+            console.error(`TfL Stream ${event} error:`, error)
+            // The client is now showing the error; resend even an unchanged payload once TfL is back
+            last = null
+            send("upstream-error", { event, error: describeError(error, `Failed to get ${event}`, "STOP_NOT_FOUND") })
+          }
+        }
+      }
+
+      const publishArrivals = publisher("arrivals", () => getBusArrivals(stopId))
+      const publishBuses = publisher("buses", () => getBusLocations(stopId))
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+      publishArrivals()
+      publishBuses()
+
+      timers.push(setInterval(publishArrivals, ARRIVALS_INTERVAL_MS))
+      timers.push(setInterval(publishBuses, BUSES_INTERVAL_MS))
+      // Comment lines keep proxies from closing an idle connection
+      timers.push(setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS))
+
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      closed = true
+      timers.forEach(clearInterval)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering on nginx-style proxies
+      "X-Accel-Buffering": "no",
+    },
+  })
+})
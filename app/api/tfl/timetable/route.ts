@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { getScheduledDepartures } from "@/lib/tfl/timetables"
+
+export const GET = withMetrics("/api/tfl/timetable", async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const stopId = searchParams.get("stopId")
+  const lineIds = (searchParams.get("lines") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (!stopId) {
+    return invalidParams("Stop ID is required")
+  }
+
+  try {
+    const lines = await getScheduledDepartures(stopId, lineIds)
+
+    return NextResponse.json(
+      { lines },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+        },
+      },
+    )
+  } catch (error) {
+    console.error("TfL Timetable API error:", error)
+    return upstreamError(error, "Failed to get timetable", "STOP_NOT_FOUND")
+  }
+})
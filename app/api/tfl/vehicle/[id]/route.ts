@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiError, invalidParams, upstreamError } from "@/lib/tfl/errors"
+import { withMetrics } from "@/lib/tfl/metrics"
+import { getVehicleJourney } from "@/lib/tfl/vehicles"
+
+export const GET = withMetrics("/api/tfl/vehicle/[id]", async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  if (!id) {
+    return invalidParams("Vehicle ID is required")
+  }
+
+  try {
+    const journey = await getVehicleJourney(id)
+
+    if (!journey) {
+      return apiError("VEHICLE_NOT_FOUND", "Vehicle not found")
+    }
+
+    return NextResponse.json(journey, {
+      headers: { "Cache-Control": "public, s-maxage=15, stale-while-revalidate=15" },
+    })
+  } catch (error) {
+    console.error("TfL Vehicle API error:", error)
+    return upstreamError(error, "Failed to get vehicle journey", "VEHICLE_NOT_FOUND")
+  }
+})
@@ -0,0 +1,8 @@
+import { GET as internalGET } from "@/app/api/tfl/arrivals/route"
+import { V1_ENDPOINTS } from "@/lib/v1/endpoints"
+import { v1Route } from "@/lib/v1/route"
+
+const route = v1Route(V1_ENDPOINTS.arrivals, internalGET)
+
+export const GET = route.GET
+export const OPTIONS = route.OPTIONS
@@ -0,0 +1,13 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { buildOpenApiDocument } from "@/lib/v1/openapi"
+import { corsHeaders } from "@/lib/v1/route"
+
+// Public like the docs it feeds, so no API key
+export function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: {
+      ...corsHeaders(request.headers.get("origin")),
+      "Cache-Control": "public, max-age=300",
+    },
+  })
+}
@@ -0,0 +1,35 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { BusTracker } from "@/components/bus-tracker"
+import { findLine } from "@/lib/tfl/lines"
+import { safeDecodeURIComponent } from "@/lib/utils"
+
+// Routes only change with timetable updates
+export const revalidate = 3600
+
+interface LinePageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata({ params }: LinePageProps): Promise<Metadata> {
+  const { id } = await params
+  const lineId = safeDecodeURIComponent(id)
+  const line = lineId === null ? null : await findLine(lineId).catch(() => null)
+  if (!line) return { title: "Route not found" }
+
+  const ends = line.directions[0]?.name
+  return {
+    title: `Route ${line.lineName} – stops and live buses`,
+    description: ends ? `Every stop on route ${line.lineName}: ${ends}.` : `Every stop on route ${line.lineName}.`,
+  }
+}
+
+export default async function LinePage({ params }: LinePageProps) {
+  const { id } = await params
+  const lineId = safeDecodeURIComponent(id)
+  if (lineId === null) notFound()
+  const line = await findLine(lineId)
+  if (!line) notFound()
+
+  return <BusTracker initialLine={line} />
+}
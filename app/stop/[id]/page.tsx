@@ -0,0 +1,79 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { BusTracker, type BusStop } from "@/components/bus-tracker"
+import { getBusArrivals } from "@/lib/tfl/arrivals"
+import { TflError } from "@/lib/tfl/client"
+import { getStopDetails, isGroupId, type StopDetails } from "@/lib/tfl/stops"
+import { safeDecodeURIComponent } from "@/lib/utils"
+
+// Arrivals are live; never serve a stored render
+export const dynamic = "force-dynamic"
+
+interface StopPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ line?: string | string[] }>
+}
+
+// Null when TfL doesn't know the stop; other failures surface as errors
+async function loadStop(id: string): Promise<StopDetails | null> {
+  try {
+    return await getStopDetails(id)
+  } catch (error) {
+    if (error instanceof TflError && (error.status === 404 || error.status === 400)) return null
+    throw error
+  }
+}
+
+function toBusStop(details: StopDetails): BusStop | null {
+  // Groups sometimes come without their own coordinates; use a member stop's
+  const lat = details.lat ?? details.stops[0]?.lat
+  const lon = details.lon ?? details.stops[0]?.lon
+  if (lat === undefined || lon === undefined) return null
+
+  return {
+    ...details,
+    lat,
+    lon,
+    indicator: details.indicator ?? undefined,
+    hub: isGroupId(details.id) || undefined,
+  }
+}
+
+export async function generateMetadata({ params }: StopPageProps): Promise<Metadata> {
+  const { id } = await params
+  const stopId = safeDecodeURIComponent(id)
+  const stop = stopId === null ? null : await loadStop(stopId).catch(() => null)
+  if (!stop) return { title: "Stop not found" }
+
+  const letter = stop.stopLetter ? ` (Stop ${stop.stopLetter})` : ""
+  const towards = stop.towards ? ` towards ${stop.towards}` : ""
+  return {
+    title: `${stop.commonName}${letter} – live bus arrivals`,
+    description: `Live arrivals at ${stop.commonName}${letter}${towards}.`,
+  }
+}
+
+export default async function StopPage({ params, searchParams }: StopPageProps) {
+  const { id } = await params
+  const { line } = await searchParams
+  const stopId = safeDecodeURIComponent(id)
+  if (stopId === null) notFound()
+
+  const details = await loadStop(stopId)
+  const stop = details && toBusStop(details)
+  if (!stop) notFound()
+
+  // A first snapshot to render with; the page goes live once it hydrates
+  const arrivals = await getBusArrivals(stop.id).catch((error) => {
+    console.error("Server-rendered arrivals failed:", error)
+    return null
+  })
+
+  return (
+    <BusTracker
+      initialStop={stop}
+      initialArrivals={arrivals}
+      initialHighlightedLine={typeof line === "string" ? line : null}
+    />
+  )
+}
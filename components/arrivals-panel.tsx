@@ -1,12 +1,18 @@
 "use client"
 
-import { memo, useMemo, useCallback } from "react"
+import { memo, useMemo, useCallback, useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Bus, RefreshCw, Clock, Zap, MapPin, ArrowLeft, Wind, Heart } from "lucide-react"
+import { Bus, RefreshCw, Clock, Zap, MapPin, ArrowLeft, Wind, Heart, AlertTriangle, Ban, CalendarClock, Layers, Timer, Hourglass, Target, BarChart3 } from "lucide-react"
 // Import the new skeleton
 import { ArrivalsSkeleton } from "@/components/skeletons"
+import { StatsCard } from "@/components/stats-card"
+import type { DisruptionLevel, LineDisruption, StopDisruptions } from "@/lib/tfl/disruptions"
+import type { ScheduledLine } from "@/lib/tfl/timetables"
+import type { BusArrival } from "@/lib/tfl/arrivals"
+import type { LineReliability, StopReliability } from "@/lib/tfl/reliability"
+import type { TypicalHeadway } from "@/lib/tfl/headways"
 
 // --- INTERFACES ---
 interface BusStop {
@@ -18,15 +24,13 @@ interface BusStop {
   walkingTime?: number
   indicator?: string
   additionalProperties?: Array<{ key: string; value: string }>
-}
-
-interface BusArrival {
-  id: string
-  lineName: string
-  destinationName: string
-  timeToStation: number
-  expectedArrival: string
-  vehicleId: string
+  towards?: string | null
+  lines?: string[]
+  compassPoint?: string | null
+  smsCode?: string | null
+  // A stop group shown as one board across all of its stops
+  hub?: boolean
+  stops?: Array<{ id: string; stopLetter: string | null; indicator: string | null }>
 }
 
 interface ArrivalsPanelProps {
@@ -34,6 +38,15 @@ interface ArrivalsPanelProps {
   arrivals: BusArrival[]
   loading: boolean
   lastUpdated: Date | null
+  disruptions?: StopDisruptions | null
+  // Line to pick out, e.g. the one chosen in the trip planner
+  highlightedLine?: string | null
+  // Timetabled departures, shown only when there are no live arrivals
+  scheduled?: ScheduledLine[] | null
+  // Recorded history for the stop; only watched stops have any
+  reliability?: StopReliability | null
+  // Each line's usual interval, from recorded history or the timetable
+  typicalHeadways?: TypicalHeadway[] | null
   onRefresh: () => void
   onBack?: () => void
   showBackButton?: boolean
@@ -65,14 +78,64 @@ const formatDistanceInMiles = (distance?: number) => {
 }
 
 const getTowardsDestination = (stop: BusStop) => {
-  const towardsProperty = stop.additionalProperties?.find((prop) => prop.key.toLowerCase() === "towards")
-  return towardsProperty ? `towards ${towardsProperty.value}` : ""
+  const towards =
+    stop.towards ?? stop.additionalProperties?.find((prop) => prop.key.toLowerCase() === "towards")?.value
+  return towards ? `towards ${towards}` : ""
 }
 
 const getStopIndicator = (stop: BusStop) => {
   return stop.indicator?.replace("Stop ", "").trim() || "BUS"
 }
 
+// Buses closer than this share of the usual interval are running as a bunch
+const BUNCH_SHARE_OF_HEADWAY = 0.25
+const MIN_BUNCH_GAP_S = 60
+// Used when we don't know how often the line runs
+const DEFAULT_BUNCH_GAP_S = 90
+// A gap this many times the usual interval is worth running for the bus before it
+const LONG_GAP_FACTOR = 1.75
+const MIN_LONG_GAP_MIN = 10
+const DEFAULT_LONG_GAP_MIN = 20
+
+interface HeadwayAnalysis {
+  // Runs of two or more buses arriving together
+  bunches: BusArrival[][]
+  // Minutes between the next bus (or its bunch) and the one after, if unusually long
+  longGapAfterNext: number | null
+}
+
+// Expects arrivals for one line, soonest first
+const analyseHeadways = (arrivals: BusArrival[], typicalMinutes?: number): HeadwayAnalysis => {
+  const bunchGap = typicalMinutes
+    ? Math.max(MIN_BUNCH_GAP_S, typicalMinutes * 60 * BUNCH_SHARE_OF_HEADWAY)
+    : DEFAULT_BUNCH_GAP_S
+
+  const groups: BusArrival[][] = []
+  for (const arrival of arrivals) {
+    const group = groups[groups.length - 1]
+    const last = group?.[group.length - 1]
+    if (last && arrival.timeToStation - last.timeToStation < bunchGap) group.push(arrival)
+    else groups.push([arrival])
+  }
+
+  // Nothing predicted after the next bunch tells us nothing; TfL only looks so far ahead
+  const [next, following] = groups
+  const gap = next && following ? (following[0].timeToStation - next[next.length - 1].timeToStation) / 60 : null
+  const longGap = typicalMinutes ? Math.max(MIN_LONG_GAP_MIN, typicalMinutes * LONG_GAP_FACTOR) : DEFAULT_LONG_GAP_MIN
+
+  return {
+    bunches: groups.filter((group) => group.length > 1),
+    longGapAfterNext: gap !== null && gap >= longGap ? Math.round(gap) : null,
+  }
+}
+
+const disruptionStyles: Record<DisruptionLevel, { banner: string; icon: string }> = {
+  closed: { banner: "bg-red-50 border-tfl-red/40 text-red-900", icon: "text-tfl-red" },
+  severe: { banner: "bg-orange-50 border-orange-300 text-orange-900", icon: "text-orange-600" },
+  minor: { banner: "bg-amber-50 border-amber-300 text-amber-900", icon: "text-amber-600" },
+  info: { banner: "bg-blue-50 border-tfl-blue/30 text-tfl-dark", icon: "text-tfl-blue" },
+}
+
 // --- CUSTOM HOOK FOR FAVORITES ---
 const useFavorite = (stopId: string | undefined) => {
   const [isFavorite, setIsFavorite] = useState(false)
@@ -128,64 +191,170 @@ const EmptyState = memo(
 
 EmptyState.displayName = "EmptyState"
 
+const DisruptionBanner = memo(
+  ({ level, title, description }: { level: DisruptionLevel; title: string; description: string }) => {
+    const Icon = level === "closed" ? Ban : AlertTriangle
+
+    return (
+      <div className={`flex items-start gap-3 p-3 rounded-xl border ${disruptionStyles[level].banner}`} role="status">
+        <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${disruptionStyles[level].icon}`} aria-hidden="true" />
+        <div className="min-w-0 text-xs leading-relaxed">
+          <p className="font-bold">{title}</p>
+          {description && description !== title && <p className="mt-0.5">{description}</p>}
+        </div>
+      </div>
+    )
+  },
+)
+
+DisruptionBanner.displayName = "DisruptionBanner"
+
 const ArrivalRow = memo(
   ({
     lineName,
     lineArrivals,
     index,
+    disruptions = [],
+    highlighted = false,
+    typicalHeadway,
   }: {
     lineName: string
     lineArrivals: BusArrival[]
     index: number
+    disruptions?: LineDisruption[]
+    highlighted?: boolean
+    typicalHeadway?: TypicalHeadway
   }) => {
+    const [showDisruption, setShowDisruption] = useState(false)
     const nextBus = lineArrivals[0]
     const otherBuses = lineArrivals.slice(1, 3)
+    const worstDisruption = disruptions[0]
+
+    const { bunches, longGapAfterNext } = useMemo(
+      () => analyseHeadways(lineArrivals, typicalHeadway?.minutes),
+      [lineArrivals, typicalHeadway],
+    )
+    const shownIds = new Set([nextBus, ...otherBuses].map((bus) => bus.id))
+    const bunchedIds = new Set(bunches.flat().map((bus) => bus.id))
+    const shownBunch = bunches.find((bunch) => bunch.some((bus) => shownIds.has(bus.id)))
+    const usually = typicalHeadway ? ` (usually every ${Math.round(typicalHeadway.minutes)} min)` : ""
 
     return (
       <div
-        className="group flex items-center gap-4 p-3 rounded-xl bg-gradient-to-r from-white to-tfl-gray-50/50 border border-tfl-gray-200/60 hover:shadow-md hover:border-tfl-blue/20 transition-all duration-200 hover:scale-[1.01]"
+        className={`group p-3 rounded-xl bg-gradient-to-r from-white to-tfl-gray-50/50 border hover:shadow-md hover:border-tfl-blue/20 transition-all duration-200 hover:scale-[1.01] ${
+          highlighted ? "border-tfl-blue ring-2 ring-tfl-blue/30" : "border-tfl-gray-200/60"
+        }`}
         style={{ animationDelay: `${index * 80}ms` }}
       >
-        <div className="flex-shrink-0">
-          <Badge
-            variant="secondary"
-            className="font-black text-lg w-16 h-12 flex items-center justify-center bg-gradient-to-br from-tfl-red to-tfl-red text-white shadow-lg hover:shadow-xl transition-shadow duration-200 rounded-xl"
-          >
-            {lineName}
-          </Badge>
-        </div>
-
-        <div className="flex-1 min-w-0 space-y-1">
-          <p className="font-bold text-stop text-tfl-dark truncate group-hover:text-tfl-blue transition-colors duration-200">
-            {nextBus.destinationName}
-          </p>
-          {otherBuses.length > 0 && (
-            <div className="flex items-center gap-1 text-xs text-tfl-gray-500">
-              <Clock className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
-              <span>Also at {otherBuses.map((b) => formatArrivalTime(b.timeToStation)).join(", ")}</span>
-            </div>
-          )}
-        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex-shrink-0">
+            <Badge
+              variant="secondary"
+              className="font-black text-lg w-16 h-12 flex items-center justify-center bg-gradient-to-br from-tfl-red to-tfl-red text-white shadow-lg hover:shadow-xl transition-shadow duration-200 rounded-xl"
+            >
+              {lineName}
+            </Badge>
+          </div>
 
-        <div className="flex items-center gap-3 flex-shrink-0">
-          <div
-            className={`w-3 h-3 rounded-full ${getArrivalColor(nextBus.timeToStation)} shadow-sm`}
-            role="presentation"
-          ></div>
-          <div className="text-right">
-            <div className={`font-black text-xl ${getArrivalTextColor(nextBus.timeToStation)}`} aria-live="polite">
-              {formatArrivalTime(nextBus.timeToStation)}
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-1.5 min-w-0">
+              <p className="font-bold text-stop text-tfl-dark truncate group-hover:text-tfl-blue transition-colors duration-200">
+                {nextBus.destinationName}
+              </p>
+              {nextBus.platformName && (
+                <span
+                  className="flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold bg-tfl-red text-white"
+                  title={`Arrives at stop ${nextBus.platformName}`}
+                >
+                  {nextBus.platformName}
+                </span>
+              )}
+              {shownBunch && (
+                <span
+                  className="flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-800"
+                  title={`${shownBunch.length} buses within ${Math.max(
+                    1,
+                    Math.round((shownBunch[shownBunch.length - 1].timeToStation - shownBunch[0].timeToStation) / 60),
+                  )} min of each other${usually}`}
+                >
+                  {shownBunch.length} together
+                </span>
+              )}
+              {worstDisruption && (
+                <button
+                  type="button"
+                  onClick={() => setShowDisruption((prev) => !prev)}
+                  className={`flex-shrink-0 rounded-md p-0.5 hover:bg-white ${disruptionStyles[worstDisruption.level].icon}`}
+                  aria-expanded={showDisruption}
+                  aria-label={`${lineName}: ${worstDisruption.status}`}
+                >
+                  <AlertTriangle className="h-4 w-4" aria-hidden="true" />
+                </button>
+              )}
             </div>
-            {nextBus.timeToStation >= 60 && (
-              <div className="text-xs text-tfl-gray-500 font-medium">
-                {new Date(nextBus.expectedArrival).toLocaleTimeString([], {
-                  hour: "2-digit",
-                  minute: "2-digit",
-                })}
+            {nextBus.currentLocation && (
+              <div className="flex items-center gap-1 text-xs text-tfl-gray-600 min-w-0">
+                <MapPin className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+                <span className="truncate">at {nextBus.currentLocation}</span>
+              </div>
+            )}
+            {otherBuses.length > 0 && (
+              <div className="flex items-center gap-1 text-xs text-tfl-gray-500">
+                <Clock className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+                <span>
+                  Also at{" "}
+                  {otherBuses.map((b, i) => (
+                    <span key={b.id} className={bunchedIds.has(b.id) ? "font-bold text-amber-700" : undefined}>
+                      {i > 0 && ", "}
+                      {formatArrivalTime(b.timeToStation)}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            )}
+            {longGapAfterNext !== null && (
+              <div className="flex items-center gap-1 text-xs font-semibold text-tfl-red" role="status">
+                <Hourglass className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+                <span>
+                  Run for it: then a {longGapAfterNext} min gap{usually}
+                </span>
               </div>
             )}
           </div>
+
+          <div className="flex items-center gap-3 flex-shrink-0">
+            <div
+              className={`w-3 h-3 rounded-full ${getArrivalColor(nextBus.timeToStation)} shadow-sm`}
+              role="presentation"
+            ></div>
+            <div className="text-right">
+              <div className={`font-black text-xl ${getArrivalTextColor(nextBus.timeToStation)}`} aria-live="polite">
+                {formatArrivalTime(nextBus.timeToStation)}
+              </div>
+              {nextBus.timeToStation >= 60 && (
+                <div className="text-xs text-tfl-gray-500 font-medium">
+                  {new Date(nextBus.expectedArrival).toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
         </div>
+
+        {showDisruption && disruptions.length > 0 && (
+          <div className="mt-3 space-y-2">
+            {disruptions.map((disruption, i) => (
+              <DisruptionBanner
+                key={i}
+                level={disruption.level}
+                title={disruption.status}
+                description={disruption.description}
+              />
+            ))}
+          </div>
+        )}
       </div>
     )
   },
@@ -193,9 +362,244 @@ const ArrivalRow = memo(
 
 ArrivalRow.displayName = "ArrivalRow"
 
+// Soonest departures across an interchange; more than this is a timetable
+const HUB_BOARD_ROWS = 30
+
+// Every arrival at an interchange in one list, with the stop letter first so
+// you know which stand to walk to
+const HubBoard = memo(
+  ({
+    arrivals,
+    stops = [],
+    highlightedLine,
+  }: {
+    arrivals: BusArrival[]
+    stops?: BusStop["stops"]
+    highlightedLine?: string | null
+  }) => {
+    const letters = new Map(stops.map((stop) => [stop.id, stop.stopLetter ?? stop.indicator]))
+    const rows = arrivals.slice(0, HUB_BOARD_ROWS)
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-bold text-tfl-gray-700 uppercase tracking-wide">All Departures</h3>
+          <Badge variant="secondary" className="bg-tfl-blue/10 text-tfl-blue font-medium">
+            {new Set(arrivals.map((a) => a.naptanId)).size} stops
+          </Badge>
+        </div>
+
+        <table className="w-full text-sm" aria-live="polite">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wide text-tfl-gray-500">
+              <th scope="col" className="text-left font-bold pb-2 w-12">Stop</th>
+              <th scope="col" className="text-left font-bold pb-2 w-16">Route</th>
+              <th scope="col" className="text-left font-bold pb-2">Destination</th>
+              <th scope="col" className="text-right font-bold pb-2 w-16">Due</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((arrival) => {
+              const letter = arrival.platformName ?? letters.get(arrival.naptanId) ?? "–"
+              return (
+                <tr
+                  key={`${arrival.naptanId}-${arrival.id}`}
+                  className={`border-t border-tfl-gray-100 ${
+                    arrival.lineName === highlightedLine ? "bg-tfl-blue/5" : ""
+                  }`}
+                >
+                  <td className="py-2">
+                    <span className="inline-flex items-center justify-center min-w-7 h-7 px-1 rounded-md bg-tfl-red text-white text-xs font-black">
+                      {letter}
+                    </span>
+                  </td>
+                  <td className="py-2">
+                    <span className="font-black text-tfl-dark">{arrival.lineName}</span>
+                  </td>
+                  <td className="py-2 min-w-0">
+                    <p className="font-semibold text-tfl-dark truncate">{arrival.destinationName}</p>
+                    {arrival.currentLocation && (
+                      <p className="text-xs text-tfl-gray-500 truncate">at {arrival.currentLocation}</p>
+                    )}
+                  </td>
+                  <td className={`py-2 text-right font-black ${getArrivalTextColor(arrival.timeToStation)}`}>
+                    {formatArrivalTime(arrival.timeToStation)}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    )
+  },
+)
+
+HubBoard.displayName = "HubBoard"
+
+const formatScheduledTime = (iso: string) => {
+  const date = new Date(iso)
+  const time = date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/London" })
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay ? time : `${date.toLocaleDateString("en-GB", { weekday: "short", timeZone: "Europe/London" })} ${time}`
+}
+
+// Timetable times are not predictions, so they get a muted, dashed look that
+// can't be mistaken for the live countdown pills
+const ScheduledSection = ({ lines }: { lines: ScheduledLine[] }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="flex items-center gap-2 text-sm font-bold text-tfl-gray-700 uppercase tracking-wide">
+        <CalendarClock className="h-4 w-4 text-tfl-gray-500" aria-hidden="true" />
+        Scheduled
+      </h3>
+      <Badge variant="outline" className="border-dashed text-tfl-gray-500 font-medium">
+        Timetabled, not live
+      </Badge>
+    </div>
+
+    <p className="text-xs text-tfl-gray-600">
+      No live predictions right now. These are the next departures from the published timetable.
+    </p>
+
+    <ul className="space-y-2">
+      {lines.map((line) => (
+        <li
+          key={line.lineId}
+          className="flex items-center gap-3 p-3 rounded-xl border border-dashed border-tfl-gray-300 bg-tfl-gray-50/50"
+        >
+          <span className="px-2 py-1 rounded-lg text-sm font-bold bg-tfl-gray-200 text-tfl-dark min-w-[3rem] text-center">
+            {line.lineName}
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {line.departures.map((departure) => (
+              <span key={departure} className="text-sm font-medium text-tfl-gray-600 tabular-nums">
+                {formatScheduledTime(departure)}
+              </span>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+)
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`
+
+// Prediction error is most useful roughly when you'd leave home
+const PREFERRED_HORIZON_MIN = 10
+
+const ReliabilityCards = ({ line }: { line: LineReliability }) => {
+  const { headway } = line
+  const accuracy =
+    line.accuracy.find((a) => a.horizonMinutes === PREFERRED_HORIZON_MIN) ?? line.accuracy[line.accuracy.length - 1]
+  const worstHour = line.gapsByHour.reduce<LineReliability["gapsByHour"][number] | null>(
+    (worst, hour) => (!worst || hour.worstMinutes > worst.worstMinutes ? hour : worst),
+    null,
+  )
+
+  return (
+    <div className="grid gap-3">
+      {headway && (
+        <StatsCard
+          icon={Timer}
+          title="Typical gap"
+          value={`${headway.medianMinutes} min`}
+          subtitle={`9 in 10 gaps under ${headway.p90Minutes} min • ${Math.round(headway.bunchedShare * 100)}% bunched`}
+          color="blue"
+        />
+      )}
+      {headway && worstHour && (
+        <StatsCard
+          icon={Hourglass}
+          title="Worst gap"
+          value={`${headway.worstMinutes} min`}
+          subtitle={`Worst around ${formatHour(worstHour.hour)}, when gaps run ${worstHour.medianMinutes} min`}
+          color="red"
+        />
+      )}
+      {accuracy && (
+        <StatsCard
+          icon={Target}
+          title="Prediction accuracy"
+          value={`±${Math.round(accuracy.meanAbsErrorSeconds / 60)} min`}
+          subtitle={`${accuracy.horizonMinutes} min ahead • usually ${Math.abs(Math.round(accuracy.medianErrorSeconds / 60))} min ${
+            accuracy.medianErrorSeconds >= 0 ? "late" : "early"
+          }`}
+          color="dark"
+        />
+      )}
+    </div>
+  )
+}
+
+const ReliabilitySection = ({
+  reliability,
+  highlightedLine,
+}: {
+  reliability: StopReliability
+  highlightedLine?: string | null
+}) => {
+  const lines = reliability.lines
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const keyOf = (line: LineReliability) => `${line.lineId}:${line.direction ?? ""}`
+  const selected =
+    lines.find((line) => keyOf(line) === selectedKey) ??
+    lines.find((line) => line.lineName === highlightedLine) ??
+    lines[0]
+
+  return (
+    <div className="space-y-3 mt-6 pt-5 border-t border-tfl-gray-200/60">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-bold text-tfl-gray-700 uppercase tracking-wide">
+          <BarChart3 className="h-4 w-4 text-tfl-gray-500" aria-hidden="true" />
+          Reliability
+        </h3>
+        <Badge variant="outline" className="text-tfl-gray-500 font-medium">
+          Last {reliability.days} days • {reliability.departures} buses
+        </Badge>
+      </div>
+
+      {lines.length > 1 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Line">
+          {lines.map((line) => (
+            <button
+              key={keyOf(line)}
+              type="button"
+              onClick={() => setSelectedKey(keyOf(line))}
+              aria-pressed={line === selected}
+              className={`px-2 py-1 rounded-lg text-xs font-bold transition-colors ${
+                line === selected ? "bg-tfl-blue text-white" : "bg-blue-50 text-tfl-blue hover:bg-blue-100"
+              }`}
+            >
+              {line.lineName}
+              {line.direction && <span className="font-medium opacity-75"> {line.direction}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ReliabilityCards line={selected} />
+    </div>
+  )
+}
+
 // --- MAIN COMPONENT ---
 export const ArrivalsPanel = memo(
-  ({ selectedStop, arrivals, loading, lastUpdated, onRefresh, onBack, showBackButton }: ArrivalsPanelProps) => {
+  ({
+    selectedStop,
+    arrivals,
+    loading,
+    lastUpdated,
+    disruptions,
+    highlightedLine,
+    scheduled,
+    reliability,
+    typicalHeadways,
+    onRefresh,
+    onBack,
+    showBackButton,
+  }: ArrivalsPanelProps) => {
     const processedData = useMemo(() => {
       if (!selectedStop) return null
 
@@ -218,18 +622,39 @@ export const ArrivalsPanel = memo(
       })
 
       const sortedLineNames = Object.keys(groupedArrivals).sort((a, b) => {
+        // The highlighted line always comes first
+        if (highlightedLine && a !== b) {
+          if (a === highlightedLine) return -1
+          if (b === highlightedLine) return 1
+        }
         const numA = Number.parseInt(a.replace(/[^0-9]/g, "")) || 999
         const numB = Number.parseInt(b.replace(/[^0-9]/g, "")) || 999
         return numA - numB
       })
 
+      const lineDisruptions = (disruptions?.lines ?? []).reduce(
+        (acc, disruption) => {
+          const key = disruption.lineId.toLowerCase()
+          if (!acc[key]) {
+            acc[key] = []
+          }
+          acc[key].push(disruption)
+          return acc
+        },
+        {} as Record<string, LineDisruption[]>,
+      )
+
+      const lineHeadways = Object.fromEntries((typicalHeadways ?? []).map((h) => [h.lineId.toLowerCase(), h]))
+
       return {
         towardsDestination,
         stopIndicator,
         groupedArrivals,
         sortedLineNames,
+        lineDisruptions,
+        lineHeadways,
       }
-    }, [selectedStop, arrivals])
+    }, [selectedStop, arrivals, disruptions, highlightedLine, typicalHeadways])
 
     const handleRefresh = useCallback(() => {
       onRefresh()
@@ -248,7 +673,12 @@ export const ArrivalsPanel = memo(
       )
     }
 
-    const { towardsDestination, stopIndicator, groupedArrivals, sortedLineNames } = processedData
+    const { towardsDestination, stopIndicator, groupedArrivals, sortedLineNames, lineDisruptions, lineHeadways } =
+      processedData
+    const stopDisruptions = disruptions?.stop ?? []
+    const severeLineDisruptions = (disruptions?.lines ?? []).filter(
+      (d) => d.level === "closed" || d.level === "severe",
+    )
 
     return (
       <Card className="backdrop-blur-sm bg-white/95 border-0 shadow-2xl ring-1 ring-tfl-gray-200/50 overflow-hidden">
@@ -270,7 +700,11 @@ export const ArrivalsPanel = memo(
               <div className="relative flex-shrink-0">
                 <div className="absolute inset-0 bg-tfl-red rounded-xl blur-sm opacity-20"></div>
                 <div className="relative w-12 h-12 bg-gradient-to-br from-tfl-red to-tfl-red rounded-xl flex items-center justify-center shadow-lg">
-                  <span className="text-white font-black text-xl tracking-tighter">{stopIndicator}</span>
+                  {selectedStop.hub ? (
+                    <Layers className="h-6 w-6 text-white" aria-label="All stops" />
+                  ) : (
+                    <span className="text-white font-black text-xl tracking-tighter">{stopIndicator}</span>
+                  )}
                 </div>
               </div>
 
@@ -279,6 +713,25 @@ export const ArrivalsPanel = memo(
                 {towardsDestination && (
                   <p className="text-timing text-tfl-gray-600 truncate font-medium">{towardsDestination}</p>
                 )}
+                {(selectedStop.compassPoint || selectedStop.smsCode) && (
+                  <p className="text-xs text-tfl-gray-500 font-medium mt-0.5">
+                    {selectedStop.compassPoint && <span>Heading {selectedStop.compassPoint}</span>}
+                    {selectedStop.compassPoint && selectedStop.smsCode && " • "}
+                    {selectedStop.smsCode && <span>Text code {selectedStop.smsCode}</span>}
+                  </p>
+                )}
+                {selectedStop.lines && selectedStop.lines.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {selectedStop.lines.map((line) => (
+                      <span
+                        key={line}
+                        className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-tfl-blue border border-blue-100"
+                      >
+                        {line}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -318,8 +771,31 @@ export const ArrivalsPanel = memo(
         </CardHeader>
 
         <CardContent className="p-5">
+          {(stopDisruptions.length > 0 || severeLineDisruptions.length > 0) && (
+            <div className="space-y-2 mb-4">
+              {stopDisruptions.map((disruption, i) => (
+                <DisruptionBanner
+                  key={`stop-${i}`}
+                  level={disruption.level}
+                  title={disruption.level === "closed" ? "This stop is closed" : disruption.type}
+                  description={disruption.description}
+                />
+              ))}
+              {severeLineDisruptions.map((disruption, i) => (
+                <DisruptionBanner
+                  key={`line-${i}`}
+                  level={disruption.level}
+                  title={`${disruption.lineName}: ${disruption.status}`}
+                  description={disruption.description}
+                />
+              ))}
+            </div>
+          )}
+
           {loading ? (
             <ArrivalsSkeleton />
+          ) : selectedStop.hub && arrivals.length > 0 ? (
+            <HubBoard arrivals={arrivals} stops={selectedStop.stops} highlightedLine={highlightedLine} />
           ) : sortedLineNames.length > 0 ? (
             <div className="space-y-3">
               <div className="flex items-center justify-between mb-4">
@@ -336,10 +812,15 @@ export const ArrivalsPanel = memo(
                     lineName={lineName}
                     lineArrivals={groupedArrivals[lineName]}
                     index={index}
+                    disruptions={lineDisruptions[lineName.toLowerCase()]}
+                    typicalHeadway={lineHeadways[lineName.toLowerCase()]}
+                    highlighted={lineName === highlightedLine}
                   />
                 ))}
               </div>
             </div>
+          ) : scheduled && scheduled.length > 0 ? (
+            <ScheduledSection lines={scheduled} />
           ) : (
             <div className="text-center py-12">
               <div className="w-20 h-20 bg-gradient-to-br from-tfl-gray-100 to-tfl-gray-200 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-inner">
@@ -359,6 +840,10 @@ export const ArrivalsPanel = memo(
               </Button>
             </div>
           )}
+
+          {!loading && reliability && reliability.lines.length > 0 && (
+            <ReliabilitySection reliability={reliability} highlightedLine={highlightedLine} />
+          )}
         </CardContent>
       </Card>
     )
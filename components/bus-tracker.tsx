@@ -0,0 +1,730 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { MapPin, AlertCircle, Zap, Loader2, Bus } from 'lucide-react'
+import dynamic from "next/dynamic"
+import { CompactControls } from "@/components/compact-controls"
+import { ArrivalsPanel } from "@/components/arrivals-panel"
+import { NearbyStopsList } from "@/components/nearby-stops-list"
+import { LineStopsPanel } from "@/components/line-stops-panel"
+// Import the new skeleton
+import { NearbyStopsSkeleton } from "@/components/skeletons"
+import type { StopDisruptions } from "@/lib/tfl/disruptions"
+import type { ScheduledLine } from "@/lib/tfl/timetables"
+import type { StopReliability } from "@/lib/tfl/reliability"
+import type { TypicalHeadway } from "@/lib/tfl/headways"
+import type { LineSearchResult, RouteStop } from "@/lib/tfl/lines"
+import type { GeocodedPlace, PlaceSearchResult } from "@/lib/geocode"
+import type { BusArrival } from "@/lib/tfl/arrivals"
+import { ApiRequestError, assertOk } from "@/lib/api-errors"
+import { useStopStream } from "@/hooks/use-stop-stream"
+
+// LocalStorage cache management
+const CACHE_TTL = 60 * 1000 // 60 seconds
+const DEFAULT_NEARBY_RADIUS = 500 // metres
+
+// Lazy loaded Leaflet Map
+const LeafletMap = dynamic(() => import("@/components/leaflet-map"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full bg-tfl-gray-50 rounded-lg flex items-center justify-center">
+      <div className="text-center">
+        <Loader2 className="h-8 w-8 animate-spin text-tfl-red mx-auto mb-2" aria-hidden="true" />
+        <p className="text-timing text-tfl-gray-600">Loading map...</p>
+      </div>
+    </div>
+  ),
+})
+
+export interface BusStop {
+  id: string
+  commonName: string
+  lat: number
+  lon: number
+  distance?: number
+  walkingTime?: number
+  indicator?: string
+  additionalProperties?: Array<{ key: string; value: string }>
+  towards?: string | null
+  lines?: string[]
+  compassPoint?: string | null
+  smsCode?: string | null
+  parentGroupId?: string | null
+  siblings?: Array<{ id: string; commonName: string; indicator: string | null; towards: string | null }>
+  // Set for a stop group opened as one board; its stops come from hydrateStop
+  hub?: boolean
+  stops?: Array<{ id: string; commonName: string; stopLetter: string | null; indicator: string | null }>
+}
+
+interface UserLocation {
+  lat: number
+  lng: number
+}
+
+interface BusTrackerProps {
+  // Server-rendered selection for /stop/[id] and /line/[id]
+  initialStop?: BusStop | null
+  initialArrivals?: BusArrival[] | null
+  initialHighlightedLine?: string | null
+  initialLine?: LineSearchResult | null
+}
+
+// Must match BUS_ARRIVAL_VERSION; cached arrivals from older builds are ignored
+const ARRIVAL_VERSION: BusArrival["version"] = 2
+
+// What to tell the user when TfL calls fail, by error code
+const describeFailure = (err: unknown, fallback: string) => {
+  if (!(err instanceof ApiRequestError)) return fallback
+  const wait = err.details.retryAfter ? ` Try again in ${err.details.retryAfter} seconds.` : ""
+  switch (err.code) {
+    case "STOP_NOT_FOUND":
+      return "TfL doesn't recognise this stop. It may have moved or closed."
+    case "RATE_LIMITED":
+      return `TfL is getting too many requests right now.${wait || " Please wait a moment."}`
+    case "UPSTREAM_TIMEOUT":
+      return `TfL is taking too long to respond.${wait}`
+    case "UPSTREAM_ERROR":
+      return `TfL's live data is unavailable at the moment.${wait}`
+    default:
+      return fallback
+  }
+}
+
+// Cache management functions
+const getCachedArrivals = (stopId: string) => {
+  if (typeof window === "undefined") return null
+
+  const cached = localStorage.getItem(`arrivals-${stopId}`)
+  if (!cached) return null
+
+  try {
+    const { data, timestamp } = JSON.parse(cached) as { data: BusArrival[]; timestamp: number }
+    const now = Date.now()
+
+    if (now - timestamp < CACHE_TTL && data.every((arrival) => arrival.version === ARRIVAL_VERSION)) {
+      return { data, timestamp: new Date(timestamp) }
+    }
+  } catch (e) {
+    console.error("Error parsing cached data", e)
+  }
+
+  return null
+}
+
+const setCachedArrivals = (stopId: string, data: BusArrival[]) => {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(`arrivals-${stopId}`, JSON.stringify({ data, timestamp: Date.now() }))
+  } catch (e) {
+    console.error("Error caching arrival data", e)
+  }
+}
+
+// A line's stops, both directions, as map markers
+const lineStops = (line: LineSearchResult) => {
+  const stops = new Map<string, BusStop>()
+  for (const direction of line.directions) {
+    for (const stop of direction.stops) {
+      stops.set(stop.id, {
+        id: stop.id,
+        commonName: stop.name,
+        lat: stop.lat,
+        lon: stop.lon,
+        indicator: stop.stopLetter ?? undefined,
+      })
+    }
+  }
+  return [...stops.values()]
+}
+
+// The address bar mirrors what's open, so a stop or a line can be bookmarked
+// and shared, and back and forward step through what you looked at
+const selectionPath = (stopId: string | null, lineId: string | null, highlightedLine: string | null) => {
+  if (stopId) {
+    const query = highlightedLine ? `?line=${encodeURIComponent(highlightedLine)}` : ""
+    return `/stop/${encodeURIComponent(stopId)}${query}`
+  }
+  return lineId ? `/line/${encodeURIComponent(lineId)}` : "/"
+}
+
+export function BusTracker({
+  initialStop = null,
+  initialArrivals = null,
+  initialHighlightedLine = null,
+  initialLine = null,
+}: BusTrackerProps) {
+  const [selectedStop, setSelectedStop] = useState<BusStop | null>(initialStop)
+  const [busStops, setBusStops] = useState<BusStop[]>(() => (initialLine ? lineStops(initialLine) : []))
+  const [nearbyStops, setNearbyStops] = useState<BusStop[]>([])
+  const [arrivals, setArrivals] = useState<BusArrival[]>(initialArrivals ?? [])
+  const [userLocation, setUserLocation] = useState<UserLocation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [arrivalsLoading, setArrivalsLoading] = useState(false)
+  const [locationLoading, setLocationLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [showNearbyList, setShowNearbyList] = useState(false)
+  const [disruptions, setDisruptions] = useState<StopDisruptions | null>(null)
+  const [highlightedLine, setHighlightedLine] = useState<string | null>(initialHighlightedLine)
+  const [scheduled, setScheduled] = useState<ScheduledLine[] | null>(null)
+  const [reliability, setReliability] = useState<StopReliability | null>(null)
+  const [headways, setHeadways] = useState<TypicalHeadway[] | null>(null)
+  const [selectedLine, setSelectedLine] = useState<LineSearchResult | null>(initialLine)
+  // A postcode or place from search; nearby stops are around it instead of the user
+  const [searchedPlace, setSearchedPlace] = useState<GeocodedPlace | null>(null)
+  const [nearbyRadius, setNearbyRadius] = useState(DEFAULT_NEARBY_RADIUS)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Everything opened this session, so back and forward can reopen it as it was
+  const seenStopsRef = useRef(new Map<string, BusStop>())
+  const seenLinesRef = useRef(new Map<string, LineSearchResult>())
+  const urlSyncedRef = useRef(false)
+
+  const getCurrentLocation = useCallback(async () => {
+    if (!navigator.geolocation) {
+      setError("Geolocation is not supported by this browser")
+      return
+    }
+
+    setLocationLoading(true)
+    setError(null)
+
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 5000, // Optimized timeout
+          maximumAge: 300000, // Optimized cache
+        })
+      })
+
+      const location = {
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+      }
+
+      setUserLocation(location)
+      setSearchedPlace(null)
+      setNearbyRadius(DEFAULT_NEARBY_RADIUS)
+      setBusStops([])
+      setSelectedStop(null)
+      setArrivals([])
+
+      await findNearbyStops(location.lat, location.lng)
+    } catch (err) {
+      setError("Unable to get your location. Please enable location services.")
+      console.error("Geolocation error:", err)
+    } finally {
+      setLocationLoading(false)
+    }
+  }, [])
+
+  const findNearbyStops = useCallback(async (lat: number, lng: number, radius = DEFAULT_NEARBY_RADIUS) => {
+    setLoading(true)
+    setError(null)
+
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    try {
+      const response = await fetch(`/api/tfl/nearby?lat=${lat}&lng=${lng}&radius=${radius}`, {
+        signal: controller.signal,
+        headers: {
+          "Cache-Control": "max-age=300",
+        },
+      })
+      await assertOk(response)
+
+      const data = await response.json()
+
+      // An empty list still shows, so its empty state can offer a wider radius
+      setNearbyStops(data.stopPoints ?? [])
+      setShowNearbyList(true)
+      setSelectedLine(null)
+      setSelectedStop(null)
+      setArrivals([])
+    } catch (err) {
+      if (err instanceof Error && err.name !== "AbortError") {
+        console.error("Error finding nearby stops:", err)
+        setError(describeFailure(err, "Failed to find nearby bus stops. Please try again."))
+        setNearbyStops([])
+        setShowNearbyList(false)
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setLoading(false)
+      }
+    }
+
+    return () => controller.abort()
+  }, [])
+
+  const getArrivals = useCallback(async (stopId: string) => {
+    const cached = getCachedArrivals(stopId)
+    if (cached) {
+      setArrivals(cached.data)
+      setLastUpdated(cached.timestamp)
+      fetchFreshArrivals(stopId, true)
+      return
+    }
+    fetchFreshArrivals(stopId)
+  }, [])
+
+  const fetchFreshArrivals = useCallback(async (stopId: string, isBackground = false) => {
+    if (!isBackground) {
+      setArrivalsLoading(true)
+      setError(null)
+    }
+
+    try {
+      const response = await fetch(`/api/tfl/arrivals?stopId=${encodeURIComponent(stopId)}`, {
+        headers: {
+          "Cache-Control": "max-age=30",
+        },
+      })
+
+      await assertOk(response)
+
+      const data = await response.json()
+      const sortedData = data.sort((a: BusArrival, b: BusArrival) => a.timeToStation - b.timeToStation)
+
+      setArrivals(sortedData)
+      setLastUpdated(new Date())
+      setCachedArrivals(stopId, sortedData)
+    } catch (err) {
+      console.error("Error getting arrivals:", err)
+      // A stop that doesn't exist is worth saying even on a background refresh
+      if (!isBackground || (err instanceof ApiRequestError && err.code === "STOP_NOT_FOUND")) {
+        setError(describeFailure(err, "Failed to get arrival times. Please try again."))
+        setArrivals([])
+      }
+    } finally {
+      if (!isBackground) {
+        setArrivalsLoading(false)
+      }
+    }
+  }, [])
+
+  // Fill in whatever the list or map didn't carry (towards, lines, SMS code...)
+  const hydrateStop = useCallback(async (stopId: string) => {
+    try {
+      const response = await fetch(`/api/tfl/stop/${encodeURIComponent(stopId)}`)
+      if (!response.ok) return
+
+      const details = await response.json()
+      setSelectedStop((prev) =>
+        prev?.id === stopId
+          ? {
+              ...prev,
+              ...details,
+              lat: details.lat ?? prev.lat,
+              lon: details.lon ?? prev.lon,
+              indicator: details.indicator ?? prev.indicator,
+            }
+          : prev,
+      )
+    } catch (err) {
+      console.error("Error getting stop details:", err)
+    }
+  }, [])
+
+  const openStop = useCallback(
+    (stop: BusStop) => {
+      setSelectedStop(stop)
+      setShowNearbyList(false)
+      getArrivals(stop.id)
+      hydrateStop(stop.id)
+    },
+    [getArrivals, hydrateStop],
+  )
+
+  const handleStopSelect = useCallback(
+    (stop: BusStop) => {
+      setHighlightedLine(null)
+      openStop(stop)
+    },
+    [openStop],
+  )
+
+  // From the trip planner: open the boarding stop with the planned line picked out
+  const handleBoardingStopSelect = useCallback(
+    (stop: BusStop, lineName: string) => {
+      setHighlightedLine(lineName)
+      openStop(stop)
+    },
+    [openStop],
+  )
+
+  // From an interchange search result: every stop of the group on one board
+  const handleHubSelect = useCallback(
+    (hub: { id: string; commonName: string; lat: number; lon: number }) => {
+      setHighlightedLine(null)
+      setSelectedLine(null)
+      openStop({ ...hub, hub: true })
+    },
+    [openStop],
+  )
+
+  // From a route search result: show the line and its stops instead of one stop
+  const handleLineSelect = useCallback((line: LineSearchResult) => {
+    setSelectedLine(line)
+    setSelectedStop(null)
+    setArrivals([])
+    setShowNearbyList(false)
+    setBusStops(lineStops(line))
+  }, [])
+
+  const handlePlaceSelect = useCallback((place: PlaceSearchResult) => {
+    const { stops, ...location } = place
+    setSearchedPlace(location)
+    setNearbyRadius(DEFAULT_NEARBY_RADIUS)
+    setNearbyStops(stops)
+    setShowNearbyList(true)
+    setBusStops([])
+    setSelectedLine(null)
+    setSelectedStop(null)
+    setArrivals([])
+  }, [])
+
+  // Re-run the nearby search around the same place with a new radius
+  const handleRadiusChange = useCallback(
+    (radius: number) => {
+      const centre = searchedPlace ? { lat: searchedPlace.lat, lng: searchedPlace.lon } : userLocation
+      setNearbyRadius(radius)
+      if (centre) findNearbyStops(centre.lat, centre.lng, radius)
+    },
+    [searchedPlace, userLocation, findNearbyStops],
+  )
+
+  const handleLineStopSelect = useCallback(
+    (stop: RouteStop) => {
+      if (!selectedLine) return
+      handleBoardingStopSelect(
+        { id: stop.id, commonName: stop.name, lat: stop.lat, lon: stop.lon, indicator: stop.stopLetter ?? undefined },
+        selectedLine.lineName,
+      )
+    },
+    [selectedLine, handleBoardingStopSelect],
+  )
+
+  const handleBackToNearby = useCallback(() => {
+    setSelectedStop(null)
+    setArrivals([])
+    // Back to the route the stop was picked from, if any
+    setShowNearbyList(!selectedLine)
+  }, [selectedLine])
+
+  const handleSearchResults = useCallback((stops: BusStop[]) => {
+    setBusStops(stops)
+    setShowNearbyList(false)
+    setSelectedLine(null)
+    setSearchedPlace(null)
+  }, [])
+
+
+  const allStops = useMemo(
+    () => [...nearbyStops, ...busStops.filter((stop) => !nearbyStops.find((ns) => ns.id === stop.id))],
+    [nearbyStops, busStops],
+  )
+
+  // Lines serving the selected stop: what search told us plus whatever is arriving
+  const routeLineIds = useMemo(() => {
+    if (!selectedStop) return []
+    const names = [...(selectedStop.lines ?? []), ...arrivals.map((a) => a.lineName)]
+    return [...new Set(names.map((name) => name.toLowerCase()))].sort()
+  }, [selectedStop, arrivals])
+
+  const routeLineKey = routeLineIds.join(",")
+
+  const selectedStopId = selectedStop?.id ?? null
+
+  useEffect(() => {
+    setDisruptions(null)
+    if (!selectedStopId) return
+
+    const controller = new AbortController()
+    fetch(`/api/tfl/disruptions?stopId=${encodeURIComponent(selectedStopId)}&lines=${encodeURIComponent(routeLineKey)}`, {
+      signal: controller.signal,
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: StopDisruptions | null) => setDisruptions(data))
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") {
+          console.error("Error getting disruptions:", err)
+        }
+      })
+
+    return () => controller.abort()
+  }, [selectedStopId, routeLineKey])
+
+  // Each line's usual interval, to judge bunches and gaps in the live arrivals
+  useEffect(() => {
+    setHeadways(null)
+    if (!selectedStopId || !routeLineKey) return
+
+    const controller = new AbortController()
+    fetch(`/api/tfl/headways?stopId=${encodeURIComponent(selectedStopId)}&lines=${encodeURIComponent(routeLineKey)}`, {
+      signal: controller.signal,
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { lines: TypicalHeadway[] } | null) => setHeadways(data?.lines ?? null))
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") {
+          console.error("Error getting typical headways:", err)
+        }
+      })
+
+    return () => controller.abort()
+  }, [selectedStopId, routeLineKey])
+
+  // How the stop's lines have really been running, when we record its history
+  useEffect(() => {
+    setReliability(null)
+    if (!selectedStopId) return
+
+    const controller = new AbortController()
+    fetch(`/api/tfl/stats?stopId=${encodeURIComponent(selectedStopId)}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: StopReliability | null) => setReliability(data))
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") {
+          console.error("Error getting reliability stats:", err)
+        }
+      })
+
+    return () => controller.abort()
+  }, [selectedStopId])
+
+  const noLiveArrivals = !arrivalsLoading && arrivals.length === 0
+
+  // Timetabled departures fill the panel when nothing is being predicted
+  useEffect(() => {
+    setScheduled(null)
+    if (!selectedStopId || !noLiveArrivals || !routeLineKey) return
+
+    const controller = new AbortController()
+    fetch(`/api/tfl/timetable?stopId=${encodeURIComponent(selectedStopId)}&lines=${encodeURIComponent(routeLineKey)}`, {
+      signal: controller.signal,
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { lines: ScheduledLine[] } | null) => setScheduled(data?.lines ?? null))
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") {
+          console.error("Error getting timetable:", err)
+        }
+      })
+
+    return () => controller.abort()
+  }, [selectedStopId, routeLineKey, noLiveArrivals])
+
+  // Live updates for the panel and the map share one subscription
+  const handleStreamArrivals = useCallback((stopId: string, data: BusArrival[]) => {
+    const sortedData = [...data].sort((a, b) => a.timeToStation - b.timeToStation)
+    setArrivals(sortedData)
+    setLastUpdated(new Date())
+    setCachedArrivals(stopId, sortedData)
+  }, [])
+
+  // Live refreshes are background ones: only a stop TfL doesn't know is worth interrupting for
+  const handleStreamError = useCallback((_stopId: string, err: ApiRequestError) => {
+    if (err.code !== "STOP_NOT_FOUND") return
+    setError(describeFailure(err, "Failed to get arrival times. Please try again."))
+    setArrivals([])
+  }, [])
+
+  const { buses, unlocated } = useStopStream(selectedStopId, handleStreamArrivals, handleStreamError)
+
+  useEffect(() => {
+    if (selectedStop) seenStopsRef.current.set(selectedStop.id, selectedStop)
+  }, [selectedStop])
+
+  useEffect(() => {
+    if (selectedLine) seenLinesRef.current.set(selectedLine.lineId, selectedLine)
+  }, [selectedLine])
+
+  const selectedLineId = selectedLine?.lineId ?? null
+
+  useEffect(() => {
+    const path = selectionPath(selectedStopId, selectedLineId, highlightedLine)
+    const current = window.location.pathname + window.location.search
+    // The first sync only tidies the URL we were opened with (/line/N29 -> /line/n29)
+    if (!urlSyncedRef.current) {
+      urlSyncedRef.current = true
+      if (path !== current) window.history.replaceState(null, "", path)
+    } else if (path !== current) {
+      window.history.pushState(null, "", path)
+    }
+  }, [selectedStopId, selectedLineId, highlightedLine])
+
+  // Back and forward: reopen whatever the URL names
+  useEffect(() => {
+    const handlePopState = () => {
+      const { pathname, searchParams } = new URL(window.location.href)
+      const [, kind, rawId] = pathname.split("/")
+      const id = rawId ? decodeURIComponent(rawId) : null
+
+      if (kind === "stop" && id) {
+        const stop = seenStopsRef.current.get(id)
+        // Not opened in this page's lifetime; let the server render it
+        if (!stop) return window.location.reload()
+        setHighlightedLine(searchParams.get("line"))
+        openStop(stop)
+      } else if (kind === "line" && id) {
+        const line = seenLinesRef.current.get(id)
+        if (!line) return window.location.reload()
+        setHighlightedLine(null)
+        handleLineSelect(line)
+      } else {
+        setSelectedStop(null)
+        setSelectedLine(null)
+        setHighlightedLine(null)
+        setArrivals([])
+        setShowNearbyList(nearbyStops.length > 0)
+      }
+    }
+
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [openStop, handleLineSelect, nearbyStops.length])
+
+  useEffect(() => {
+    // Deep links open with their selection; only the home page goes looking for the user
+    if (initialStop) {
+      if (initialArrivals) {
+        setLastUpdated(new Date())
+        setCachedArrivals(initialStop.id, initialArrivals)
+      } else {
+        getArrivals(initialStop.id)
+      }
+    } else if (!initialLine) {
+      getCurrentLocation()
+    }
+    return () => {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort()
+      }
+    }
+  }, [getCurrentLocation, getArrivals, initialStop, initialArrivals, initialLine])
+
+  return (
+    <div className="min-h-screen bg-tfl-gray-50">
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-80 h-80 bg-tfl-red/10 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob will-change-transform"></div>
+        <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-tfl-blue/10 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-2000 will-change-transform"></div>
+        <div className="absolute top-40 left-40 w-80 h-80 bg-tfl-dark/10 rounded-full mix-blend-multiply filter blur-xl opacity-20 animate-blob animation-delay-4000 will-change-transform"></div>
+      </div>
+
+      <div className="relative z-10 p-4 max-w-7xl mx-auto">
+        <header className="text-center mb-6 animate-fade-in" role="banner">
+          <div className="flex items-center justify-center gap-3 mb-2">
+            <div className="p-3 bg-tfl-red rounded-2xl shadow-lg">
+              <Bus className="h-8 w-8 text-white" aria-hidden="true" />
+            </div>
+            <h1 className="text-title text-tfl-dark">
+              London Live
+              <span className="sr-only">London Bus Tracker</span>
+            </h1>
+          </div>
+        </header>
+
+        <div className="mb-6 space-y-4">
+          <CompactControls
+            onLocationUpdate={getCurrentLocation}
+            onStopsFound={handleSearchResults}
+            onStopSelect={handleStopSelect}
+            onBoardingStopSelect={handleBoardingStopSelect}
+            onLineSelect={handleLineSelect}
+            onPlaceSelect={handlePlaceSelect}
+            onHubSelect={handleHubSelect}
+            onError={setError}
+            locationLoading={locationLoading}
+            hasLocation={!!userLocation}
+            userLocation={userLocation}
+          />
+
+          {error && (
+            <Alert variant="destructive" className="animate-slide-in" role="alert">
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* New Skeleton Loader */}
+          {loading && <NearbyStopsSkeleton />}
+
+          {!loading && showNearbyList && (
+            <NearbyStopsList
+              stops={nearbyStops}
+              onStopSelect={handleStopSelect}
+              placeName={searchedPlace?.name ?? null}
+              radius={nearbyRadius}
+              onRadiusChange={handleRadiusChange}
+            />
+          )}
+
+          {!loading && selectedLine && !selectedStop && !showNearbyList && (
+            <LineStopsPanel
+              line={selectedLine}
+              onStopSelect={handleLineStopSelect}
+              onClose={() => setSelectedLine(null)}
+            />
+          )}
+
+          {!loading && selectedStop && (
+            <ArrivalsPanel
+              selectedStop={selectedStop}
+              arrivals={arrivals}
+              loading={arrivalsLoading}
+              lastUpdated={lastUpdated}
+              disruptions={disruptions}
+              highlightedLine={highlightedLine}
+              scheduled={scheduled}
+              reliability={reliability}
+              typicalHeadways={headways}
+              onRefresh={() => selectedStop && getArrivals(selectedStop.id)}
+              onBack={handleBackToNearby}
+              showBackButton={nearbyStops.length > 0 || !!selectedLine}
+            />
+          )}
+        </div>
+
+
+        <Card className="h-[600px] backdrop-blur-sm bg-white/95 border-0 shadow-xl overflow-hidden">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-header">
+              <MapPin className="h-5 w-5 text-tfl-red" aria-hidden="true" />
+              {selectedStop ? "Live Bus Map" : "Map"}
+              {userLocation && (
+                <Badge variant="secondary" className="ml-auto">
+                  <Zap className="h-3 w-3 mr-1" aria-hidden="true" />
+                  Live
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0 h-[calc(100%-4rem)]">
+            <LeafletMap
+              busStops={allStops}
+              selectedStop={selectedStop}
+              userLocation={userLocation}
+              onStopSelect={handleStopSelect}
+              routeLineIds={routeLineIds}
+              selectedLineId={selectedLineId}
+              searchedPlace={searchedPlace}
+              buses={buses}
+              unlocatedBuses={unlocated}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
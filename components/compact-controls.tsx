@@ -3,7 +3,11 @@
 import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Search, MapPin, Loader2, Navigation } from 'lucide-react'
+import { Search, MapPin, Loader2, Navigation, Signpost, Route, Layers } from 'lucide-react'
+import { JourneyPlanner } from "@/components/journey-planner"
+import type { LineSearchResult } from "@/lib/tfl/lines"
+import type { PlaceSearchResult } from "@/lib/geocode"
+import { ApiRequestError, assertOk } from "@/lib/api-errors"
 
 // Updated Interface to match rich API data
 interface BusStop {
@@ -12,30 +16,76 @@ interface BusStop {
   lat: number
   lon: number
   distance?: number
+  walkingTime?: number
   indicator?: string
   towards?: string
   lines?: string[]
+  smsCode?: string | null
+  // Resolved directly from an SMS or ATCO code
+  exact?: boolean
+  // The stop group this stop belongs to, when search expanded one
+  parentGroupId?: string | null
+}
+
+// A stop group with several stops in the results, offered as one board
+interface HubResult {
+  id: string
+  commonName: string
+  lat: number
+  lon: number
+  stops: BusStop[]
+}
+
+function groupHubs(stops: BusStop[]): HubResult[] {
+  const hubs = new Map<string, BusStop[]>()
+  for (const stop of stops) {
+    if (!stop.parentGroupId) continue
+    hubs.set(stop.parentGroupId, [...(hubs.get(stop.parentGroupId) ?? []), stop])
+  }
+  return [...hubs.entries()]
+    .filter(([, children]) => children.length > 1)
+    .map(([id, children]) => ({
+      id,
+      commonName: children[0].commonName,
+      lat: children.reduce((sum, stop) => sum + stop.lat, 0) / children.length,
+      lon: children.reduce((sum, stop) => sum + stop.lon, 0) / children.length,
+      stops: children,
+    }))
 }
 
 interface CompactControlsProps {
   onLocationUpdate: () => void
   onStopsFound: (stops: BusStop[]) => void
   onStopSelect: (stop: BusStop) => void
+  onBoardingStopSelect: (stop: BusStop, lineName: string) => void
+  onLineSelect: (line: LineSearchResult) => void
+  onPlaceSelect: (place: PlaceSearchResult) => void
+  // Every stop of an interchange on one arrivals board
+  onHubSelect: (hub: { id: string; commonName: string; lat: number; lon: number }) => void
   onError: (error: string) => void
   locationLoading: boolean
   hasLocation: boolean
+  userLocation: { lat: number; lng: number } | null
 }
 
 export function CompactControls({
   onLocationUpdate,
   onStopsFound,
   onStopSelect,
+  onBoardingStopSelect,
+  onLineSelect,
+  onPlaceSelect,
+  onHubSelect,
   onError,
   locationLoading,
   hasLocation,
+  userLocation,
 }: CompactControlsProps) {
   const [searchQuery, setSearchQuery] = useState("")
+  const [showPlanner, setShowPlanner] = useState(false)
   const [searchResults, setSearchResults] = useState<BusStop[]>([])
+  const [lineResults, setLineResults] = useState<LineSearchResult[]>([])
+  const [placeResults, setPlaceResults] = useState<PlaceSearchResult[]>([])
   const [loading, setLoading] = useState(false)
   const isSelectingRef = useRef(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -45,6 +95,8 @@ export function CompactControls({
 
     if (!query.trim()) {
       setSearchResults([])
+      setLineResults([])
+      setPlaceResults([])
       onStopsFound([])
       return
     }
@@ -53,15 +105,32 @@ export function CompactControls({
     onError("")
 
     try {
-      const response = await fetch(`/api/tfl/search?query=${encodeURIComponent(query)}`)
-      if (!response.ok) throw new Error("Failed to search bus stops")
+      const params = new URLSearchParams({ query })
+      // Lets the server put the stops we can walk to first
+      if (userLocation) {
+        params.set("lat", String(userLocation.lat))
+        params.set("lon", String(userLocation.lng))
+      }
+      const response = await fetch(`/api/tfl/search?${params}`)
+      await assertOk(response)
 
       const data = await response.json()
       const stops = data.matches || []
       setSearchResults(stops)
+      setLineResults(data.lines || [])
+      setPlaceResults(data.places || [])
       onStopsFound(stops)
     } catch (err) {
       setSearchResults([])
+      setLineResults([])
+      setPlaceResults([])
+      // An empty dropdown already says "nothing found"; only TfL trouble needs words
+      const code = err instanceof ApiRequestError ? err.code : null
+      if (code === "RATE_LIMITED") {
+        onError("Search is busy right now. Give it a few seconds and try again.")
+      } else if (code === "UPSTREAM_TIMEOUT" || code === "UPSTREAM_ERROR") {
+        onError("Search is unavailable because TfL isn't responding.")
+      }
     } finally {
       setLoading(false)
     }
@@ -71,6 +140,8 @@ export function CompactControls({
     isSelectingRef.current = true
     setSearchQuery(stop.commonName)
     setSearchResults([]) // Force close dropdown
+    setLineResults([])
+    setPlaceResults([])
     onStopSelect(stop)
     
     // Reset selection lock after a short delay
@@ -79,6 +150,52 @@ export function CompactControls({
     }, 500)
   }
 
+  const handleLineSelect = (line: LineSearchResult) => {
+    isSelectingRef.current = true
+    setSearchQuery(`Route ${line.lineName}`)
+    setSearchResults([])
+    setLineResults([])
+    setPlaceResults([])
+    onLineSelect(line)
+
+    setTimeout(() => {
+      isSelectingRef.current = false
+    }, 500)
+  }
+
+  const handlePlaceSelect = (place: PlaceSearchResult) => {
+    isSelectingRef.current = true
+    setSearchQuery(place.name)
+    setSearchResults([])
+    setLineResults([])
+    setPlaceResults([])
+    onPlaceSelect(place)
+
+    setTimeout(() => {
+      isSelectingRef.current = false
+    }, 500)
+  }
+
+  const handleHubSelect = (hub: HubResult) => {
+    isSelectingRef.current = true
+    setSearchQuery(hub.commonName)
+    setSearchResults([])
+    setLineResults([])
+    setPlaceResults([])
+    const { stops, ...location } = hub
+    onHubSelect(location)
+
+    setTimeout(() => {
+      isSelectingRef.current = false
+    }, 500)
+  }
+
+  const hubResults = groupHubs(searchResults)
+  // A stop matched by its SMS or ATCO code is what the user typed; it goes
+  // above routes, places and interchanges
+  const exactResults = searchResults.filter((stop) => stop.exact)
+  const otherResults = searchResults.filter((stop) => !stop.exact)
+
   useEffect(() => {
     const timer = setTimeout(() => {
       searchBusStops(searchQuery)
@@ -91,6 +208,8 @@ export function CompactControls({
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setSearchResults([])
+        setLineResults([])
+        setPlaceResults([])
       }
     }
     document.addEventListener("mousedown", handleClickOutside)
@@ -102,6 +221,71 @@ export function CompactControls({
     return stop.indicator || (stop.commonName ? stop.commonName.charAt(0).toUpperCase() : "B")
   }
 
+  const renderStop = (stop: BusStop) => (
+    <Button
+      key={stop.id}
+      variant="ghost"
+      className="w-full justify-start h-auto p-3 text-left hover:bg-tfl-gray-50 transition-all duration-200 rounded-xl group border border-transparent hover:border-gray-100"
+      onClick={() => handleStopSelect(stop)}
+    >
+      <div className="flex items-start gap-3 w-full">
+        
+        {/* Stop Letter Icon */}
+        <div className="flex-shrink-0 mt-1">
+          <div className="w-10 h-10 bg-gradient-to-br from-tfl-red to-red-600 rounded-lg flex items-center justify-center shadow-sm">
+            <span className="text-white font-bold text-lg">
+              {getStopLetter(stop)}
+            </span>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-w-0">
+          {/* Name */}
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-tfl-dark text-base truncate">
+              {stop.commonName}
+            </span>
+            {stop.exact && (
+              <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold bg-emerald-50 text-emerald-700 border border-emerald-100">
+                {stop.smsCode ? `Code ${stop.smsCode}` : "Exact match"}
+              </span>
+            )}
+            {stop.walkingTime != null && (
+              <span className="flex-shrink-0 ml-auto text-[10px] font-bold text-tfl-blue">
+                🚶 {stop.walkingTime} min
+              </span>
+            )}
+          </div>
+          
+          {/* Towards Information (The missing link!) */}
+          {stop.towards && (
+            <div className="flex items-center gap-1.5 text-sm text-tfl-gray-600 mt-0.5">
+              <Navigation size={12} className="text-tfl-gray-400 rotate-90" />
+              <span className="truncate font-medium">
+                towards {stop.towards}
+              </span>
+            </div>
+          )}
+
+          {/* Bus Lines Row */}
+          {stop.lines && stop.lines.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {stop.lines.map((line) => (
+                <span 
+                  key={line}
+                  className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-tfl-blue border border-blue-100"
+                >
+                  {line}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Button>
+  )
+
   return (
     <div className="w-full relative z-50 mb-6" ref={dropdownRef}>
       {/* Search Bar */}
@@ -118,10 +302,23 @@ export function CompactControls({
              isSelectingRef.current = false // Unlock on typing
              setSearchQuery(e.target.value)
           }}
-          className="w-full h-14 pl-12 pr-14 bg-white text-gray-900 placeholder-gray-500 rounded-2xl border-none shadow-lg outline-none transition-all duration-200 focus:ring-2 focus:ring-tfl-blue/20"
+          className="w-full h-14 pl-12 pr-24 bg-white text-gray-900 placeholder-gray-500 rounded-2xl border-none shadow-lg outline-none transition-all duration-200 focus:ring-2 focus:ring-tfl-blue/20"
         />
 
-        <div className="absolute right-2 top-1/2 -translate-y-1/2 z-10">
+        <div className="absolute right-2 top-1/2 -translate-y-1/2 z-10 flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowPlanner((prev) => !prev)}
+            className={`h-10 w-10 rounded-xl transition-all duration-200 ${
+              showPlanner ? "text-tfl-blue bg-blue-50 hover:bg-blue-100" : "text-gray-400 hover:bg-gray-100"
+            }`}
+            aria-label="Plan trip"
+            aria-expanded={showPlanner}
+            title="Plan trip"
+          >
+            <Signpost size={20} />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -142,8 +339,20 @@ export function CompactControls({
         </div>
       </div>
 
+      {/* Trip Planner */}
+      {showPlanner && (
+        <JourneyPlanner
+          userLocation={userLocation}
+          onBoardingStopSelect={(stop, lineName) => {
+            setShowPlanner(false)
+            onBoardingStopSelect(stop, lineName)
+          }}
+          onClose={() => setShowPlanner(false)}
+        />
+      )}
+
       {/* Results Dropdown */}
-      {(loading || searchResults.length > 0) && (
+      {(loading || searchResults.length > 0 || lineResults.length > 0 || placeResults.length > 0) && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden p-2 z-50 animate-fade-in">
           
           {loading && (
@@ -154,62 +363,114 @@ export function CompactControls({
             </div>
           )}
 
-          {searchResults.length > 0 && !loading && (
-            <div className="max-h-[60vh] overflow-y-auto custom-scrollbar space-y-1">
-              {searchResults.map((stop) => (
+          {exactResults.length > 0 && !loading && <div className="space-y-1 mb-1">{exactResults.map(renderStop)}</div>}
+
+          {lineResults.length > 0 && !loading && (
+            <div className="space-y-1 mb-1">
+              <div className="px-3 pt-1 text-[10px] font-bold uppercase tracking-wide text-tfl-gray-500">Routes</div>
+              {lineResults.map((line) => (
                 <Button
-                  key={stop.id}
+                  key={line.lineId}
                   variant="ghost"
                   className="w-full justify-start h-auto p-3 text-left hover:bg-tfl-gray-50 transition-all duration-200 rounded-xl group border border-transparent hover:border-gray-100"
-                  onClick={() => handleStopSelect(stop)}
+                  onClick={() => handleLineSelect(line)}
                 >
                   <div className="flex items-start gap-3 w-full">
-                    
-                    {/* Stop Letter Icon */}
                     <div className="flex-shrink-0 mt-1">
-                      <div className="w-10 h-10 bg-gradient-to-br from-tfl-red to-red-600 rounded-lg flex items-center justify-center shadow-sm">
-                        <span className="text-white font-bold text-lg">
-                          {getStopLetter(stop)}
-                        </span>
+                      <div className="min-w-10 h-10 px-1.5 bg-tfl-blue rounded-lg flex items-center justify-center shadow-sm">
+                        <span className="text-white font-bold text-lg">{line.lineName}</span>
                       </div>
                     </div>
 
-                    {/* Content */}
                     <div className="flex-1 min-w-0">
-                      {/* Name */}
-                      <div className="font-bold text-tfl-dark text-base truncate">
-                        {stop.commonName}
+                      <div className="flex items-center gap-1.5 font-bold text-tfl-dark text-base">
+                        <Route size={14} className="text-tfl-blue" />
+                        Route {line.lineName}
                       </div>
-                      
-                      {/* Towards Information (The missing link!) */}
-                      {stop.towards && (
-                        <div className="flex items-center gap-1.5 text-sm text-tfl-gray-600 mt-0.5">
-                          <Navigation size={12} className="text-tfl-gray-400 rotate-90" />
-                          <span className="truncate font-medium">
-                            towards {stop.towards}
-                          </span>
-                        </div>
-                      )}
-
-                      {/* Bus Lines Row */}
-                      {stop.lines && stop.lines.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mt-2">
-                          {stop.lines.map((line) => (
-                            <span 
-                              key={line}
-                              className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-blue-50 text-tfl-blue border border-blue-100"
-                            >
-                              {line}
-                            </span>
-                          ))}
+                      {line.directions.map((direction) => (
+                        <div key={direction.direction} className="text-sm text-tfl-gray-600 mt-0.5 truncate">
+                          {direction.name}
+                          <span className="text-tfl-gray-400"> • {direction.stops.length} stops</span>
                         </div>
-                      )}
+                      ))}
+                    </div>
+                  </div>
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {placeResults.length > 0 && !loading && (
+            <div className="space-y-1 mb-1">
+              <div className="px-3 pt-1 text-[10px] font-bold uppercase tracking-wide text-tfl-gray-500">Places</div>
+              {placeResults.map((place) => (
+                <Button
+                  key={`${place.kind}-${place.name}`}
+                  variant="ghost"
+                  className="w-full justify-start h-auto p-3 text-left hover:bg-tfl-gray-50 transition-all duration-200 rounded-xl group border border-transparent hover:border-gray-100"
+                  onClick={() => handlePlaceSelect(place)}
+                >
+                  <div className="flex items-start gap-3 w-full">
+                    <div className="flex-shrink-0 mt-1">
+                      <div className="w-10 h-10 bg-tfl-gray-100 rounded-lg flex items-center justify-center shadow-sm">
+                        <MapPin size={20} className="text-tfl-blue" />
+                      </div>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold text-tfl-dark text-base truncate">Stops near {place.name}</div>
+                      <div className="text-sm text-tfl-gray-600 mt-0.5">
+                        {place.stops.length} stops within 500m
+                        <span className="text-tfl-gray-400"> • {place.kind === "postcode" ? "Postcode" : "Place"}</span>
+                      </div>
+                    </div>
+                  </div>
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {hubResults.length > 0 && !loading && (
+            <div className="space-y-1 mb-1">
+              <div className="px-3 pt-1 text-[10px] font-bold uppercase tracking-wide text-tfl-gray-500">Interchanges</div>
+              {hubResults.map((hub) => (
+                <Button
+                  key={hub.id}
+                  variant="ghost"
+                  className="w-full justify-start h-auto p-3 text-left hover:bg-tfl-gray-50 transition-all duration-200 rounded-xl group border border-transparent hover:border-gray-100"
+                  onClick={() => handleHubSelect(hub)}
+                >
+                  <div className="flex items-start gap-3 w-full">
+                    <div className="flex-shrink-0 mt-1">
+                      <div className="w-10 h-10 bg-tfl-dark rounded-lg flex items-center justify-center shadow-sm">
+                        <Layers size={20} className="text-white" />
+                      </div>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold text-tfl-dark text-base truncate">All stops at {hub.commonName}</div>
+                      <div className="text-sm text-tfl-gray-600 mt-0.5 truncate">
+                        {hub.stops.length} stops
+                        <span className="text-tfl-gray-400"> • {hub.stops.map(getStopLetter).join(", ")}</span>
+                      </div>
                     </div>
                   </div>
                 </Button>
               ))}
             </div>
           )}
+
+          {otherResults.length > 0 &&
+            !loading &&
+            (exactResults.length > 0 || lineResults.length > 0 || placeResults.length > 0 || hubResults.length > 0) && (
+              <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wide text-tfl-gray-500">Stops</div>
+            )}
+
+          {otherResults.length > 0 && !loading && (
+            <div className="max-h-[60vh] overflow-y-auto custom-scrollbar space-y-1">
+              {otherResults.map(renderStop)}
+            </div>
+          )}
         </div>
       )}
     </div>
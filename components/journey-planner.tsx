@@ -0,0 +1,194 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Footprints, Bus, ArrowRight, Loader2, X } from "lucide-react"
+import type { Itinerary, ItineraryLeg } from "@/lib/tfl/journeys"
+import { ApiRequestError, assertOk } from "@/lib/api-errors"
+
+interface BoardingStop {
+  id: string
+  commonName: string
+  lat: number
+  lon: number
+  indicator?: string
+}
+
+interface JourneyPlannerProps {
+  userLocation: { lat: number; lng: number } | null
+  onBoardingStopSelect: (stop: BoardingStop, lineName: string) => void
+  onClose: () => void
+}
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+const LegRow = ({
+  leg,
+  onBoardingStopSelect,
+}: {
+  leg: ItineraryLeg
+  onBoardingStopSelect: JourneyPlannerProps["onBoardingStopSelect"]
+}) => {
+  if (leg.mode === "walking") {
+    return (
+      <div className="flex items-center gap-2 text-xs text-tfl-gray-600">
+        <Footprints className="h-3.5 w-3.5 flex-shrink-0 text-tfl-gray-400" />
+        <span className="truncate">
+          Walk {leg.duration} min to <span className="font-medium text-tfl-dark">{leg.to.name}</span>
+        </span>
+      </div>
+    )
+  }
+
+  const { from, to } = leg
+  const canOpenStop = from.stopId !== null && from.lat !== null && from.lon !== null
+
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      <Bus className="h-3.5 w-3.5 flex-shrink-0 mt-0.5 text-tfl-red" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-wrap gap-1">
+          {leg.lines.map((line) => (
+            <span key={line} className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-tfl-red text-white">
+              {line}
+            </span>
+          ))}
+          <span className="text-tfl-gray-500">{leg.duration} min</span>
+        </div>
+        <div className="flex items-center gap-1 text-tfl-gray-600 flex-wrap">
+          <span>Board at</span>
+          <button
+            type="button"
+            disabled={!canOpenStop}
+            onClick={() =>
+              canOpenStop &&
+              onBoardingStopSelect(
+                {
+                  id: from.stopId as string,
+                  commonName: from.name,
+                  lat: from.lat as number,
+                  lon: from.lon as number,
+                  indicator: from.stopLetter ?? undefined,
+                },
+                leg.lines[0],
+              )
+            }
+            className="font-bold text-tfl-blue hover:underline disabled:text-tfl-dark disabled:no-underline"
+          >
+            {from.name}
+            {from.stopLetter && ` (Stop ${from.stopLetter})`}
+          </button>
+        </div>
+        <div className="text-tfl-gray-600">
+          Alight at <span className="font-medium text-tfl-dark">{to.name}</span>
+          {to.stopLetter && ` (Stop ${to.stopLetter})`}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function JourneyPlanner({ userLocation, onBoardingStopSelect, onClose }: JourneyPlannerProps) {
+  const [destination, setDestination] = useState("")
+  const [journeys, setJourneys] = useState<Itinerary[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const planTrip = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!destination.trim()) return
+    if (!userLocation) {
+      setError("We need your location to plan a trip. Tap the location button first.")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const from = `${userLocation.lat},${userLocation.lng}`
+      const response = await fetch(
+        `/api/tfl/journey?from=${encodeURIComponent(from)}&to=${encodeURIComponent(destination.trim())}`,
+      )
+      await assertOk(response)
+
+      const data = await response.json()
+      setJourneys(data.journeys || [])
+    } catch (err) {
+      setJourneys(null)
+      const code = err instanceof ApiRequestError ? err.code : null
+      if (code === "RATE_LIMITED" || code === "UPSTREAM_TIMEOUT" || code === "UPSTREAM_ERROR") {
+        setError("TfL's journey planner isn't answering right now. Try again in a minute.")
+      } else if (code === "NOT_FOUND" || code === "INVALID_PARAMS") {
+        setError("TfL couldn't find that destination. Try a place name, postcode or stop.")
+      } else {
+        setError("Couldn't plan that trip. Try a different destination.")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 bg-white rounded-2xl shadow-xl border border-gray-100 p-3 animate-fade-in">
+      <form onSubmit={planTrip} className="flex items-center gap-2">
+        <input
+          type="text"
+          placeholder="Where to? Place, postcode or stop"
+          value={destination}
+          onChange={(e) => setDestination(e.target.value)}
+          className="flex-1 h-10 px-3 bg-tfl-gray-50 text-gray-900 placeholder-gray-500 rounded-xl outline-none focus:ring-2 focus:ring-tfl-blue/20 text-sm"
+          aria-label="Destination"
+        />
+        <Button type="submit" disabled={loading || !destination.trim()} className="h-10 rounded-xl bg-tfl-blue hover:bg-blue-800">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Plan"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-10 w-10 rounded-xl text-gray-400"
+          aria-label="Close trip planner"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {error && <p className="mt-3 text-xs font-medium text-tfl-red">{error}</p>}
+
+      {loading && (
+        <div className="space-y-2 mt-3">
+          {[...Array(2)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {!loading && journeys && journeys.length === 0 && (
+        <p className="mt-3 text-xs text-tfl-gray-600">No bus routes found for that trip.</p>
+      )}
+
+      {!loading && journeys && journeys.length > 0 && (
+        <ol className="mt-3 space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar">
+          {journeys.map((journey, i) => (
+            <li key={i} className="p-3 rounded-xl border border-gray-100 bg-tfl-gray-50/50 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-bold text-tfl-dark">
+                <span>{formatClock(journey.startDateTime)}</span>
+                <ArrowRight className="h-3.5 w-3.5 text-tfl-gray-400" />
+                <span>{formatClock(journey.arrivalDateTime)}</span>
+                <span className="ml-auto text-xs font-bold text-tfl-blue">{journey.duration} min</span>
+              </div>
+              {journey.legs.map((leg, j) => (
+                <LegRow key={j} leg={leg} onBoardingStopSelect={onBoardingStopSelect} />
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,14 @@
 "use client"
 
-import { useState, useEffect, useRef, useMemo } from "react"
-import { MapContainer, TileLayer, Marker, Popup, useMap, ZoomControl } from "react-leaflet"
+import { Fragment, useState, useEffect, useRef, useMemo } from "react"
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, useMap, ZoomControl } from "react-leaflet"
 import L from "leaflet"
 import "leaflet/dist/leaflet.css"
 import { Button } from "@/components/ui/button"
-import { Bus, Navigation, LocateFixed, Loader2 } from "lucide-react"
+import { Bus, Navigation, LocateFixed, Loader2, Route, X, Crosshair } from "lucide-react"
+import type { LineRoute } from "@/lib/tfl/lines"
+import type { VehicleJourney } from "@/lib/tfl/vehicles"
+import { readApiError } from "@/lib/api-errors"
 
 // --- UTILS & ICONS ---
 
@@ -59,9 +62,10 @@ const stopIcon = (indicator: string | undefined, isSelected: boolean) => {
 }
 
 // NEW: Directional Bus Icon with Rotating Arrow & Line Tag
-const directionalBusIcon = (lineName: string, bearing: number) => {
+const directionalBusIcon = (lineName: string, bearing: number, estimated = false) => {
   // bearing comes from API (0-360 degrees)
   // We rotate the arrow container. Note: The arrow SVG points UP (0deg) by default.
+  // Estimated positions get a hollow, dashed marker so they don't pass for GPS fixes.
   
   return new L.DivIcon({
     className: "bus-marker-container",
@@ -71,10 +75,11 @@ const directionalBusIcon = (lineName: string, bearing: number) => {
         <div style="
           width: 32px; 
           height: 32px; 
-          background: #0019A8; 
-          border: 2px solid white; 
+          background: ${estimated ? "rgba(0, 25, 168, 0.45)" : "#0019A8"}; 
+          border: 2px ${estimated ? "dashed" : "solid"} white; 
           border-radius: 50%; 
           box-shadow: 0 4px 6px rgba(0,0,0,0.3);
+          opacity: ${estimated ? 0.8 : 1};
           display: flex; 
           align-items: center; 
           justify-content: center;
@@ -112,6 +117,15 @@ const directionalBusIcon = (lineName: string, bearing: number) => {
   })
 }
 
+// Stable per-line colour so a route keeps its colour between stops
+const ROUTE_COLORS = ["#0019A8", "#00782A", "#9B0056", "#F3A9BB", "#A0A5A9", "#E32017", "#003688", "#95CDBA", "#FFD300", "#EE7C0E"]
+
+const lineColor = (lineId: string) => {
+  let hash = 0
+  for (const char of lineId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return ROUTE_COLORS[hash % ROUTE_COLORS.length]
+}
+
 // --- INTERFACES ---
 
 interface BusStop {
@@ -123,6 +137,7 @@ interface BusStop {
   walkingTime?: number
   indicator?: string
   additionalProperties?: Array<{ key: string; value: string }>
+  lines?: string[]
 }
 
 interface UserLocation {
@@ -138,6 +153,8 @@ interface BusLocation {
   lon: number
   destination: string
   bearing: number // Added bearing field
+  timeToStation?: number
+  positionSource?: "reported" | "estimated"
 }
 
 interface LeafletMapProps {
@@ -145,6 +162,15 @@ interface LeafletMapProps {
   selectedStop: BusStop | null
   userLocation: UserLocation | null
   onStopSelect: (stop: BusStop) => void
+  routeLineIds?: string[]
+  // A line picked from search, drawn on its own until a stop is chosen
+  selectedLineId?: string | null
+  // A searched postcode or place; takes over from the user's position for centring
+  searchedPlace?: { name: string; lat: number; lon: number } | null
+  // Live positions for the selected stop; null until the first update arrives
+  buses?: BusLocation[] | null
+  // Buses on their way that TfL couldn't place
+  unlocatedBuses?: number
 }
 
 // --- SUB-COMPONENTS ---
@@ -160,50 +186,24 @@ const MapUpdater = ({ center, zoom }: { center: [number, number]; zoom: number }
   return null
 }
 
-// Component to fetch and display live buses
-const LiveBusTracker = ({ stopId }: { stopId: string | null }) => {
-  const [buses, setBuses] = useState<BusLocation[]>([])
-  const [loading, setLoading] = useState(false)
-  const map = useMap()
-
-  const fetchBusLocations = async () => {
-    if (!stopId) return
-
-    try {
-      // Don't set global loading state on every poll to avoid UI flicker
-      if (buses.length === 0) setLoading(true)
-      
-      const response = await fetch(`/api/tfl/buslocation?stopId=${stopId}`)
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch bus locations")
-      }
-
-      const data = await response.json()
-      setBuses(data.buses || [])
-    } catch (err) {
-      console.error("Error fetching bus locations:", err)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  useEffect(() => {
-    setBuses([]) // Clear buses when changing stops
-    if (stopId) {
-      fetchBusLocations()
-
-      // Poll every 15 seconds for smoother live movement
-      const interval = setInterval(() => {
-        fetchBusLocations()
-      }, 15000)
-
-      return () => clearInterval(interval)
-    }
-  }, [stopId])
+// Component to display live buses
+const LiveBusTracker = ({
+  stopId,
+  buses,
+  unlocated,
+  followedVehicleId,
+  onFollow,
+}: {
+  stopId: string | null
+  buses: BusLocation[] | null
+  unlocated: number
+  followedVehicleId: string | null
+  onFollow: (vehicleId: string) => void
+}) => {
+  if (!stopId) return null
 
   // Show loading pill if initial load
-  if (loading && buses.length === 0) {
+  if (buses === null) {
     return (
       <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000] bg-white/90 backdrop-blur-sm px-4 py-2 rounded-full shadow-md border border-gray-100">
         <div className="flex items-center gap-2">
@@ -217,12 +217,13 @@ const LiveBusTracker = ({ stopId }: { stopId: string | null }) => {
   return (
     <>
       {buses
-        .filter(bus => bus.lat && bus.lon)
+        // The follower draws the followed bus itself
+        .filter(bus => bus.lat && bus.lon && bus.vehicleId !== followedVehicleId)
         .map((bus) => (
         <Marker 
           key={bus.id} 
           position={[bus.lat, bus.lon]} 
-          icon={directionalBusIcon(bus.lineName, bus.bearing || 0)}
+          icon={directionalBusIcon(bus.lineName, bus.bearing || 0, bus.positionSource === "estimated")}
           zIndexOffset={100} // Ensure buses sit above stop markers
         >
           <Popup closeButton={false} className="custom-popup">
@@ -235,9 +236,29 @@ const LiveBusTracker = ({ stopId }: { stopId: string | null }) => {
                   To: {bus.destination}
                 </span>
               </div>
+              {bus.timeToStation !== undefined && (
+                <div className="text-xs font-bold text-tfl-blue mb-0.5">
+                  {bus.timeToStation < 60 ? "Due at your stop" : `${Math.floor(bus.timeToStation / 60)} min to your stop`}
+                </div>
+              )}
+              {bus.positionSource === "estimated" && (
+                <div className="text-[10px] text-gray-500 italic mb-0.5">
+                  Estimated position from predictions
+                </div>
+              )}
               <div className="text-[10px] text-gray-500 font-mono">
                 ID: {bus.vehicleId}
               </div>
+              {followedVehicleId !== bus.vehicleId && (
+                <Button
+                  size="sm"
+                  className="w-full mt-2 bg-tfl-blue hover:bg-blue-800 h-7 text-xs"
+                  onClick={() => onFollow(bus.vehicleId)}
+                >
+                  <Crosshair className="h-3 w-3 mr-1.5" />
+                  Follow this bus
+                </Button>
+              )}
             </div>
           </Popup>
         </Marker>
@@ -249,6 +270,7 @@ const LiveBusTracker = ({ stopId }: { stopId: string | null }) => {
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
             <span className="text-xs font-medium">{buses.length} Live Buses</span>
+            {unlocated > 0 && <span className="text-xs text-white/70">• {unlocated} not located</span>}
           </div>
         </div>
       )}
@@ -256,16 +278,265 @@ const LiveBusTracker = ({ stopId }: { stopId: string | null }) => {
   )
 }
 
+// Follows one vehicle: lists its remaining stops and keeps it in view
+const VehicleFollower = ({
+  vehicleId,
+  location,
+  selectedStopId,
+  onClose,
+}: {
+  vehicleId: string
+  // Where the live bus layer last placed it, reported or estimated
+  location: BusLocation | null
+  selectedStopId: string | null
+  onClose: () => void
+}) => {
+  const [journey, setJourney] = useState<VehicleJourney | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const map = useMap()
+
+  useEffect(() => {
+    setJourney(null)
+    setError(null)
+    const controller = new AbortController()
+
+    const fetchJourney = async () => {
+      try {
+        const response = await fetch(`/api/tfl/vehicle/${encodeURIComponent(vehicleId)}`, {
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          const { code } = await readApiError(response)
+          throw new Error(
+            code === "VEHICLE_NOT_FOUND"
+              ? "This bus has finished its journey"
+              : code === "RATE_LIMITED" || code === "UPSTREAM_TIMEOUT"
+                ? "TfL is busy, still trying to follow this bus"
+                : "Failed to follow bus",
+          )
+        }
+
+        setJourney(await response.json())
+        setError(null)
+      } catch (err) {
+        if (err instanceof Error && err.name !== "AbortError") {
+          setError(err.message)
+        }
+      }
+    }
+
+    fetchJourney()
+    const interval = setInterval(fetchJourney, 15000)
+
+    return () => {
+      controller.abort()
+      clearInterval(interval)
+    }
+  }, [vehicleId])
+
+  // Keep the camera on the bus as it moves. TfL often has no position for the
+  // journey itself, so fall back to the live layer's
+  const estimated = !journey?.position && location?.positionSource === "estimated"
+  const fallback = location?.lat && location.lon ? { lat: location.lat, lon: location.lon, bearing: location.bearing || 0 } : null
+  const position = journey?.position ?? fallback
+  const lineName = journey?.lineName ?? location?.lineName
+  useEffect(() => {
+    if (!position) return
+    map.panTo([position.lat, position.lon], { animate: true, duration: 1 })
+  }, [map, position?.lat, position?.lon])
+
+  return (
+    <>
+      {position && lineName && (
+        <Marker
+          position={[position.lat, position.lon]}
+          icon={directionalBusIcon(lineName, position.bearing, estimated)}
+          zIndexOffset={2000}
+        />
+      )}
+
+      <div className="absolute top-4 left-4 z-[1000] w-72 max-h-[calc(100%-2rem)] flex flex-col bg-white/95 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+        <div className="flex items-center gap-2 p-3 border-b border-gray-100">
+          <span className="bg-tfl-red text-white px-2 py-0.5 rounded-md text-xs font-black">
+            {journey?.lineName ?? "…"}
+          </span>
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-bold text-tfl-dark truncate">
+              {journey ? `To ${journey.destinationName}` : "Finding bus..."}
+            </p>
+            {journey?.currentLocation && (
+              <p className="text-[10px] text-tfl-gray-500 truncate">Near {journey.currentLocation}</p>
+            )}
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 rounded-lg text-tfl-gray-500"
+            onClick={onClose}
+            aria-label="Stop following this bus"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && <p className="p-3 text-xs text-tfl-red font-medium">{error}</p>}
+
+        {!journey && !error && (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 text-tfl-blue animate-spin" />
+          </div>
+        )}
+
+        {journey && (
+          <ol className="overflow-y-auto custom-scrollbar p-2 space-y-0.5" aria-label="Remaining stops">
+            {journey.stops.map((stop) => {
+              const isSelected = stop.naptanId === selectedStopId
+              return (
+                <li
+                  key={stop.naptanId}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs ${
+                    isSelected ? "bg-tfl-red/10 ring-1 ring-tfl-red/40 font-bold text-tfl-dark" : "text-tfl-gray-600"
+                  }`}
+                  aria-current={isSelected ? "location" : undefined}
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full flex-shrink-0 ${isSelected ? "bg-tfl-red" : "bg-tfl-blue/40"}`}
+                    aria-hidden="true"
+                  />
+                  <span className="flex-1 min-w-0 truncate">
+                    {stop.stationName}
+                    {stop.platformName && <span className="text-tfl-gray-400"> ({stop.platformName})</span>}
+                  </span>
+                  <span className="flex-shrink-0 font-bold tabular-nums">
+                    {stop.timeToStation < 60 ? "Due" : `${Math.floor(stop.timeToStation / 60)}min`}
+                  </span>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </>
+  )
+}
+
+// Draws the route of every line serving the selected stop, or of one searched
+// line, optionally zooming the map to take it all in
+const RouteLayer = ({
+  lineIds,
+  selectedStopId,
+  fitToRoute = false,
+}: {
+  lineIds: string[]
+  selectedStopId: string | null
+  fitToRoute?: boolean
+}) => {
+  const map = useMap()
+  const [routes, setRoutes] = useState<LineRoute[]>([])
+  const lineKey = lineIds.join(",")
+
+  useEffect(() => {
+    if (!lineKey) {
+      setRoutes([])
+      return
+    }
+
+    const controller = new AbortController()
+
+    Promise.all(
+      lineKey.split(",").map(async (lineId) => {
+        try {
+          const response = await fetch(`/api/tfl/line/${encodeURIComponent(lineId)}/route`, {
+            signal: controller.signal,
+          })
+          if (!response.ok) return null
+          return (await response.json()) as LineRoute
+        } catch {
+          return null
+        }
+      }),
+    ).then((results) => {
+      if (!controller.signal.aborted) {
+        setRoutes(results.filter((r): r is LineRoute => r !== null))
+      }
+    })
+
+    return () => controller.abort()
+  }, [lineKey])
+
+  useEffect(() => {
+    if (!fitToRoute) return
+    const points = routes.flatMap((route) => route.directions.flatMap((d) => d.geometry.flat()))
+    if (points.length > 0) map.fitBounds(L.latLngBounds(points), { padding: [24, 24] })
+  }, [map, routes, fitToRoute])
+
+  return (
+    <>
+      {routes.map((route) =>
+        route.directions.map((direction) => {
+          const color = lineColor(route.lineId)
+          const selected = direction.stops.find((stop) => stop.id === selectedStopId)
+
+          return (
+            <Fragment key={`${route.lineId}-${direction.direction}`}>
+              <Polyline
+                positions={direction.geometry}
+                pathOptions={{ color, weight: 4, opacity: 0.7 }}
+              />
+              {direction.stops.map((stop) => (
+                <CircleMarker
+                  key={stop.id}
+                  center={[stop.lat, stop.lon]}
+                  radius={3}
+                  pathOptions={{ color, fillColor: "white", fillOpacity: 1, weight: 2 }}
+                />
+              ))}
+              {selected && (
+                <CircleMarker
+                  center={[selected.lat, selected.lon]}
+                  radius={9}
+                  pathOptions={{ color, fillColor: color, fillOpacity: 0.35, weight: 3 }}
+                >
+                  <Popup closeButton={false}>
+                    <div className="text-xs font-bold">
+                      {route.lineName} • {direction.name}
+                    </div>
+                  </Popup>
+                </CircleMarker>
+              )}
+            </Fragment>
+          )
+        }),
+      )}
+    </>
+  )
+}
+
 // --- MAIN COMPONENT ---
 
-export default function LeafletMap({ busStops, selectedStop, userLocation, onStopSelect }: LeafletMapProps) {
+export default function LeafletMap({
+  busStops,
+  selectedStop,
+  userLocation,
+  onStopSelect,
+  routeLineIds = [],
+  selectedLineId = null,
+  searchedPlace = null,
+  buses = null,
+  unlocatedBuses = 0,
+}: LeafletMapProps) {
   const [mapReady, setMapReady] = useState(false)
+  const [showRoutes, setShowRoutes] = useState(true)
+  const [followedVehicleId, setFollowedVehicleId] = useState<string | null>(null)
   const mapRef = useRef<L.Map | null>(null)
 
   // Smart centering logic
   const mapCenter = useMemo(() => {
     if (selectedStop) {
       return [selectedStop.lat, selectedStop.lon] as [number, number]
+    } else if (searchedPlace) {
+      return [searchedPlace.lat, searchedPlace.lon] as [number, number]
     } else if (userLocation) {
       return [userLocation.lat, userLocation.lng] as [number, number]
     } else if (busStops.length > 0) {
@@ -278,20 +549,26 @@ export default function LeafletMap({ busStops, selectedStop, userLocation, onSto
     }
     // Default: London Charing Cross
     return [51.5074, -0.1278] as [number, number]
-  }, [selectedStop, userLocation, busStops])
+  }, [selectedStop, searchedPlace, userLocation, busStops])
 
   const mapZoom = useMemo(() => {
     if (selectedStop) return 16
+    if (searchedPlace) return 16
     if (userLocation) return 15
     if (busStops.length > 0) return 14
     return 12
-  }, [selectedStop, userLocation, busStops])
+  }, [selectedStop, searchedPlace, userLocation, busStops])
 
   useEffect(() => {
     fixLeafletIcons()
     setMapReady(true)
   }, [])
 
+  // A followed bus belongs to the stop it was picked from
+  useEffect(() => {
+    setFollowedVehicleId(null)
+  }, [selectedStop?.id])
+
   // Action Handlers
   const centerOnUser = () => {
     if (!userLocation || !mapRef.current) return
@@ -333,6 +610,15 @@ export default function LeafletMap({ busStops, selectedStop, userLocation, onSto
 
         <MapUpdater center={mapCenter} zoom={mapZoom} />
 
+        {/* Searched Place Marker */}
+        {searchedPlace && (
+          <Marker position={[searchedPlace.lat, searchedPlace.lon]} icon={createIcon("#ED1C24", 18)}>
+            <Popup>
+              <div className="font-bold text-sm">{searchedPlace.name}</div>
+            </Popup>
+          </Marker>
+        )}
+
         {/* User Location Marker */}
         {userLocation && (
           <Marker position={[userLocation.lat, userLocation.lng]} icon={createIcon("#0019A8", 16)}>
@@ -383,8 +669,31 @@ export default function LeafletMap({ busStops, selectedStop, userLocation, onSto
             </Marker>
           ))}
 
+        {/* Route Layer */}
+        {showRoutes && selectedStop && (
+          <RouteLayer lineIds={routeLineIds} selectedStopId={selectedStop.id} />
+        )}
+        {showRoutes && !selectedStop && selectedLineId && (
+          <RouteLayer lineIds={[selectedLineId]} selectedStopId={null} fitToRoute />
+        )}
+
         {/* Live Bus Layer */}
-        <LiveBusTracker stopId={selectedStop?.id || null} />
+        <LiveBusTracker
+          stopId={selectedStop?.id || null}
+          buses={buses}
+          unlocated={unlocatedBuses}
+          followedVehicleId={followedVehicleId}
+          onFollow={setFollowedVehicleId}
+        />
+
+        {followedVehicleId && (
+          <VehicleFollower
+            vehicleId={followedVehicleId}
+            location={buses?.find((bus) => bus.vehicleId === followedVehicleId) ?? null}
+            selectedStopId={selectedStop?.id || null}
+            onClose={() => setFollowedVehicleId(null)}
+          />
+        )}
 
         {/* Floating Controls */}
         <div className="absolute top-4 right-4 z-[1000] flex flex-col gap-2">
@@ -409,6 +718,20 @@ export default function LeafletMap({ busStops, selectedStop, userLocation, onSto
               <LocateFixed className="h-5 w-5 text-tfl-red" />
             </Button>
           )}
+
+          {((selectedStop && routeLineIds.length > 0) || selectedLineId) && (
+            <Button
+              size="icon"
+              className={`shadow-md h-10 w-10 rounded-xl ${
+                showRoutes ? "bg-tfl-blue text-white hover:bg-blue-800" : "bg-white text-tfl-dark hover:bg-gray-100"
+              }`}
+              onClick={() => setShowRoutes((prev) => !prev)}
+              title={showRoutes ? "Hide Routes" : "Show Routes"}
+              aria-pressed={showRoutes}
+            >
+              <Route className={`h-5 w-5 ${showRoutes ? "text-white" : "text-tfl-blue"}`} />
+            </Button>
+          )}
         </div>
 
         <ZoomControl position="bottomright" />
@@ -0,0 +1,102 @@
+"use client"
+
+import { memo, useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ArrowLeftRight, X } from "lucide-react"
+import type { LineSearchResult, RouteStop } from "@/lib/tfl/lines"
+
+interface LineStopsPanelProps {
+  line: LineSearchResult
+  onStopSelect: (stop: RouteStop) => void
+  onClose: () => void
+}
+
+// Ordered stops along a line, one direction at a time
+export const LineStopsPanel = memo(({ line, onStopSelect, onClose }: LineStopsPanelProps) => {
+  const [directionIndex, setDirectionIndex] = useState(0)
+
+  useEffect(() => {
+    setDirectionIndex(0)
+  }, [line.lineId])
+
+  const direction = line.directions[directionIndex] ?? line.directions[0]
+  if (!direction) return null
+
+  return (
+    <Card className="backdrop-blur-sm bg-white/95 border-0 shadow-2xl ring-1 ring-tfl-gray-200/50 overflow-hidden animate-fade-in">
+      <CardHeader className="p-5 bg-gradient-to-r from-tfl-gray-50 to-blue-50/50 border-b border-tfl-gray-200/80">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <div className="flex-shrink-0 min-w-12 h-12 px-2 bg-tfl-blue rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-black text-xl tracking-tighter">{line.lineName}</span>
+            </div>
+            <div className="min-w-0 flex-1">
+              <CardTitle className="text-header text-tfl-dark truncate mb-1">Route {line.lineName}</CardTitle>
+              <p className="text-timing text-tfl-gray-600 truncate font-medium">{direction.name}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {line.directions.length > 1 && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setDirectionIndex((prev) => (prev + 1) % line.directions.length)}
+                className="h-10 w-10 text-tfl-blue hover:bg-white hover:shadow-md rounded-xl"
+                aria-label="Switch direction"
+                title="Switch direction"
+              >
+                <ArrowLeftRight className="h-5 w-5" aria-hidden="true" />
+              </Button>
+            )}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onClose}
+              className="h-10 w-10 text-tfl-gray-500 hover:bg-white hover:shadow-md rounded-xl"
+              aria-label="Close route"
+            >
+              <X className="h-5 w-5" aria-hidden="true" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-5">
+        <p className="text-xs text-tfl-gray-500 mb-3">Pick a stop to see live arrivals.</p>
+        <ol className="max-h-[50vh] overflow-y-auto custom-scrollbar">
+          {direction.stops.map((stop, index) => (
+            <li key={stop.id} className="relative pl-6">
+              {/* Route line down the left edge */}
+              <span
+                className={`absolute left-[7px] w-0.5 bg-tfl-blue/40 ${
+                  index === 0 ? "top-1/2 bottom-0" : index === direction.stops.length - 1 ? "top-0 h-1/2" : "inset-y-0"
+                }`}
+                aria-hidden="true"
+              />
+              <span
+                className="absolute left-0.5 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-tfl-blue bg-white"
+                aria-hidden="true"
+              />
+              <button
+                type="button"
+                onClick={() => onStopSelect(stop)}
+                className="w-full flex items-center gap-2 py-2 px-2 rounded-lg text-left hover:bg-tfl-gray-50 transition-colors"
+              >
+                <span className="flex-1 min-w-0 truncate text-sm font-medium text-tfl-dark">{stop.name}</span>
+                {stop.stopLetter && (
+                  <span className="flex-shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold bg-tfl-red text-white">
+                    {stop.stopLetter}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+})
+
+LineStopsPanel.displayName = "LineStopsPanel"
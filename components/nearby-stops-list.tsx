@@ -1,10 +1,10 @@
 "use client"
 
-import { useState, useCallback, useMemo, memo } from "react"
+import { useState, useCallback, useMemo, useEffect, memo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { MapPin, ChevronDown, ChevronUp, Bus, Zap } from "lucide-react"
+import { MapPin, ChevronDown, ChevronUp, Bus, Zap, Maximize2, X } from "lucide-react"
 
 // --- INTERFACES ---
 interface BusStop {
@@ -15,14 +15,26 @@ interface BusStop {
   distance?: number
   walkingTime?: number
   indicator?: string
+  lines?: string[]
   additionalProperties?: Array<{ key: string; value: string }>
 }
 
 interface NearbyStopsListProps {
   stops: BusStop[]
   onStopSelect: (stop: BusStop) => void
+  // Set when the stops are around a searched postcode or place
+  placeName?: string | null
+  // Search radius in metres; changing it re-runs the nearby search
+  radius: number
+  onRadiusChange: (radius: number) => void
 }
 
+const MIN_RADIUS = 250
+const MAX_RADIUS = 2000
+const RADIUS_STEP = 250
+
+const formatRadius = (metres: number) => (metres >= 1000 ? `${metres / 1000}km` : `${metres}m`)
+
 // --- MEMOIZED COMPACT STOP CARD COMPONENT ---
 const StopCard = memo(
   ({ stop, index, onSelect }: { stop: BusStop; index: number; onSelect: (stop: BusStop) => void }) => {
@@ -106,31 +118,110 @@ const StopCard = memo(
 StopCard.displayName = "StopCard"
 
 // --- ENHANCED EMPTY STATE ---
-const EmptyState = memo(() => (
-  <Card className="backdrop-blur-sm bg-white/95 border-0 shadow-2xl ring-1 ring-tfl-gray-200/50">
-    <CardContent className="p-12 text-center flex flex-col items-center justify-center">
-      <div className="relative mb-6">
-        <div className="w-20 h-20 bg-gradient-to-br from-tfl-gray-100 to-tfl-gray-200 rounded-2xl flex items-center justify-center shadow-inner">
-          <Bus className="h-10 w-10 text-tfl-gray-400" aria-hidden="true" />
-        </div>
-        <div className="absolute -top-2 -right-2 w-8 h-8 bg-tfl-red/20 rounded-full flex items-center justify-center">
-          <span className="text-tfl-red text-xl">!</span>
-        </div>
-      </div>
-      <h3 className="text-header text-tfl-dark mb-3">No Nearby Stops</h3>
-      <p className="text-timing text-tfl-gray-600 max-w-sm mx-auto leading-relaxed">
-        We couldn't find any bus stops within 500m of your location. Try moving to a different area
-        or expanding your search radius.
-      </p>
-    </CardContent>
-  </Card>
-))
+const EmptyState = memo(
+  ({ radius, placeName, onRadiusChange }: { radius: number; placeName?: string | null; onRadiusChange: (radius: number) => void }) => {
+    const widerRadius = Math.min(MAX_RADIUS, radius * 2)
+    const canWiden = widerRadius > radius
+
+    return (
+      <Card className="backdrop-blur-sm bg-white/95 border-0 shadow-2xl ring-1 ring-tfl-gray-200/50">
+        <CardContent className="p-12 text-center flex flex-col items-center justify-center">
+          <div className="relative mb-6">
+            <div className="w-20 h-20 bg-gradient-to-br from-tfl-gray-100 to-tfl-gray-200 rounded-2xl flex items-center justify-center shadow-inner">
+              <Bus className="h-10 w-10 text-tfl-gray-400" aria-hidden="true" />
+            </div>
+            <div className="absolute -top-2 -right-2 w-8 h-8 bg-tfl-red/20 rounded-full flex items-center justify-center">
+              <span className="text-tfl-red text-xl">!</span>
+            </div>
+          </div>
+          <h3 className="text-header text-tfl-dark mb-3">No Nearby Stops</h3>
+          <p className="text-timing text-tfl-gray-600 max-w-sm mx-auto leading-relaxed">
+            We couldn't find any bus stops within {formatRadius(radius)} of {placeName ?? "your location"}.
+            {canWiden ? " Try a wider search radius." : " Try searching for a different area."}
+          </p>
+          {canWiden && (
+            <Button
+              variant="outline"
+              onClick={() => onRadiusChange(widerRadius)}
+              className="mt-4 bg-tfl-blue/10 hover:bg-tfl-blue/20 border-tfl-blue/30 text-tfl-blue"
+            >
+              <Maximize2 className="h-4 w-4 mr-2" aria-hidden="true" />
+              Search within {formatRadius(widerRadius)}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    )
+  },
+)
 
 EmptyState.displayName = "EmptyState"
 
+// Slider that only asks for a new search once the user settles on a value
+const RadiusControl = memo(({ radius, onRadiusChange }: { radius: number; onRadiusChange: (radius: number) => void }) => {
+  const [value, setValue] = useState(radius)
+
+  useEffect(() => {
+    setValue(radius)
+  }, [radius])
+
+  useEffect(() => {
+    if (value === radius) return
+    const timer = setTimeout(() => onRadiusChange(value), 500)
+    return () => clearTimeout(timer)
+  }, [value, radius, onRadiusChange])
+
+  return (
+    <label className="flex items-center gap-3 text-xs text-tfl-gray-600">
+      <span className="font-medium shrink-0">Radius</span>
+      <input
+        type="range"
+        min={MIN_RADIUS}
+        max={MAX_RADIUS}
+        step={RADIUS_STEP}
+        value={value}
+        onChange={(e) => setValue(Number(e.target.value))}
+        className="flex-1 accent-tfl-blue"
+        aria-label="Search radius"
+      />
+      <span className="w-12 text-right font-bold text-tfl-blue">{formatRadius(value)}</span>
+    </label>
+  )
+})
+
+RadiusControl.displayName = "RadiusControl"
+
 // --- MAIN COMPONENT ---
-export const NearbyStopsList = memo(({ stops, onStopSelect }: NearbyStopsListProps) => {
+export const NearbyStopsList = memo(({ stops: allStops, onStopSelect, placeName, radius, onRadiusChange }: NearbyStopsListProps) => {
   const [visibleCount, setVisibleCount] = useState(5)
+  const [lineFilter, setLineFilter] = useState<string[]>([])
+
+  // Every line served by the stops on screen, as filter chips
+  const availableLines = useMemo(
+    () =>
+      [...new Set(allStops.flatMap((stop) => stop.lines ?? []))].sort((a, b) =>
+        a.localeCompare(b, "en", { numeric: true }),
+      ),
+    [allStops],
+  )
+
+  // Drop chips for lines that are no longer around (new place, new radius)
+  useEffect(() => {
+    setLineFilter((prev) => prev.filter((line) => availableLines.includes(line)))
+  }, [availableLines])
+
+  const toggleLine = useCallback((line: string) => {
+    setLineFilter((prev) => (prev.includes(line) ? prev.filter((l) => l !== line) : [...prev, line]))
+    setVisibleCount(5)
+  }, [])
+
+  const stops = useMemo(
+    () =>
+      lineFilter.length > 0
+        ? allStops.filter((stop) => stop.lines?.some((line) => lineFilter.includes(line)))
+        : allStops,
+    [allStops, lineFilter],
+  )
 
   // Memoized callbacks
   const handleShowMore = useCallback(() => {
@@ -163,8 +254,8 @@ export const NearbyStopsList = memo(({ stops, onStopSelect }: NearbyStopsListPro
     }
   }, [stops])
 
-  if (!stops.length) {
-    return <EmptyState />
+  if (!allStops.length) {
+    return <EmptyState radius={radius} placeName={placeName} onRadiusChange={onRadiusChange} />
   }
 
   return (
@@ -182,9 +273,9 @@ export const NearbyStopsList = memo(({ stops, onStopSelect }: NearbyStopsListPro
             />
           </div>
           <div className="flex-1">
-            <span className="font-black text-tfl-dark">Nearby Stops</span>
+            <span className="font-black text-tfl-dark">{placeName ? `Stops near ${placeName}` : "Nearby Stops"}</span>
             <p className="text-timing text-tfl-gray-600 font-normal mt-0.5">
-              Within 500m of your location
+              Within {formatRadius(radius)} of {placeName ?? "your location"}
             </p>
           </div>
           <Badge
@@ -210,9 +301,55 @@ export const NearbyStopsList = memo(({ stops, onStopSelect }: NearbyStopsListPro
             </span>
           </div>
         </div>
+
+        {/* Radius and line filters */}
+        <div className="mt-3 space-y-3">
+          <RadiusControl radius={radius} onRadiusChange={onRadiusChange} />
+          {availableLines.length > 1 && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by line">
+              {availableLines.map((line) => {
+                const active = lineFilter.includes(line)
+                return (
+                  <button
+                    key={line}
+                    type="button"
+                    onClick={() => toggleLine(line)}
+                    aria-pressed={active}
+                    className={`px-2 py-0.5 rounded text-[11px] font-bold border transition-colors ${
+                      active
+                        ? "bg-tfl-blue text-white border-tfl-blue"
+                        : "bg-white text-tfl-blue border-blue-100 hover:bg-blue-50"
+                    }`}
+                  >
+                    {line}
+                  </button>
+                )
+              })}
+              {lineFilter.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setLineFilter([])}
+                  className="flex items-center gap-0.5 px-2 py-0.5 rounded text-[11px] font-medium text-tfl-gray-500 hover:text-tfl-dark"
+                >
+                  <X className="h-3 w-3" aria-hidden="true" />
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </CardHeader>
 
       <CardContent className="p-2">
+        {stops.length === 0 && (
+          <p className="p-4 text-center text-sm text-tfl-gray-600">
+            None of these stops serve {lineFilter.join(", ")}.{" "}
+            <button type="button" onClick={() => setLineFilter([])} className="font-bold text-tfl-blue hover:underline">
+              Show all stops
+            </button>
+          </p>
+        )}
+
         {/* Compact List Container: No spacing, unified border */}
         <div
           className="flex flex-col rounded-t-xl overflow-hidden border border-b-0 border-gray-200 bg-white"
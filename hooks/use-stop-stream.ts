@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ApiRequestError, assertOk, type ApiErrorDetails } from "@/lib/api-errors"
+import type { BusArrival } from "@/lib/tfl/arrivals"
+import type { BusLocation, BusLocations } from "@/lib/tfl/buses"
+
+export type StopStreamMode = "idle" | "streaming" | "polling"
+
+// After this many errors in a row stop waiting on EventSource and poll instead
+const MAX_STREAM_FAILURES = 3
+// While polling, try the stream again this often
+const STREAM_RETRY_MS = 2 * 60 * 1000
+const ARRIVALS_POLL_MS = 30000
+const BUSES_POLL_MS = 15000
+
+// One subscription per selected stop feeding both the arrivals panel and the
+// live bus layer. Prefers /api/tfl/stream and falls back to polling. Failed
+// arrivals refreshes reach onArrivalsError the same way whichever is in use.
+export function useStopStream(
+  stopId: string | null,
+  onArrivals: (stopId: string, arrivals: BusArrival[]) => void,
+  onArrivalsError?: (stopId: string, error: ApiRequestError) => void,
+) {
+  const [buses, setBuses] = useState<BusLocation[] | null>(null)
+  // Approaching vehicles TfL couldn't give us a position for
+  const [unlocated, setUnlocated] = useState(0)
+  const [mode, setMode] = useState<StopStreamMode>("idle")
+  const onArrivalsRef = useRef(onArrivals)
+  onArrivalsRef.current = onArrivals
+  const onArrivalsErrorRef = useRef(onArrivalsError)
+  onArrivalsErrorRef.current = onArrivalsError
+
+  useEffect(() => {
+    setBuses(null)
+    setUnlocated(0)
+    if (!stopId) {
+      setMode("idle")
+      return
+    }
+
+    let eventSource: EventSource | null = null
+    let pollTimers: ReturnType<typeof setInterval>[] = []
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let failures = 0
+    const controller = new AbortController()
+
+    const applyBuses = (data: Partial<BusLocations>) => {
+      setBuses(data.buses || [])
+      setUnlocated((data.failures ?? []).reduce((sum, failure) => sum + failure.vehicleIds.length, 0))
+    }
+
+    const stopPolling = () => {
+      pollTimers.forEach(clearInterval)
+      pollTimers = []
+    }
+
+    const pollArrivals = async () => {
+      try {
+        const response = await fetch(`/api/tfl/arrivals?stopId=${encodeURIComponent(stopId)}`, {
+          signal: controller.signal,
+        })
+        await assertOk(response)
+        onArrivalsRef.current(stopId, await response.json())
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") return
+        console.error("Error polling arrivals:", err)
+        if (err instanceof ApiRequestError) onArrivalsErrorRef.current?.(stopId, err)
+      }
+    }
+
+    const pollBuses = async () => {
+      try {
+        const response = await fetch(`/api/tfl/buslocation?stopId=${encodeURIComponent(stopId)}`, { signal: controller.signal })
+        if (response.ok) applyBuses(await response.json())
+      } catch (err) {
+        if (err instanceof Error && err.name !== "AbortError") console.error("Error polling bus locations:", err)
+      }
+    }
+
+    const startPolling = () => {
+      setMode("polling")
+      pollArrivals()
+      pollBuses()
+      pollTimers = [setInterval(pollArrivals, ARRIVALS_POLL_MS), setInterval(pollBuses, BUSES_POLL_MS)]
+
+      if (typeof EventSource !== "undefined") {
+        retryTimer = setTimeout(() => {
+          stopPolling()
+          connect()
+        }, STREAM_RETRY_MS)
+      }
+    }
+
+    const connect = () => {
+      if (typeof EventSource === "undefined") {
+        startPolling()
+        return
+      }
+
+      const source = new EventSource(`/api/tfl/stream?stopId=${encodeURIComponent(stopId)}`)
+      eventSource = source
+
+      source.onopen = () => {
+        failures = 0
+        setMode("streaming")
+      }
+      source.addEventListener("arrivals", (event) => {
+        onArrivalsRef.current(stopId, JSON.parse((event as MessageEvent).data))
+      })
+      source.addEventListener("buses", (event) => {
+        applyBuses(JSON.parse((event as MessageEvent).data))
+      })
+      // The stream stays open when TfL fails; it tells us which feed broke and why
+      source.addEventListener("upstream-error", (event) => {
+        const { event: feed, error } = JSON.parse((event as MessageEvent).data) as {
+          event: string
+          error: ApiErrorDetails
+        }
+        console.error(`Stream ${feed} error:`, error)
+        if (feed === "arrivals") onArrivalsErrorRef.current?.(stopId, new ApiRequestError(error))
+      })
+      source.onerror = () => {
+        failures++
+        // EventSource reconnects on its own; give up only if it can't
+        if (source.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+          source.close()
+          eventSource = null
+          startPolling()
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      controller.abort()
+      eventSource?.close()
+      stopPolling()
+      if (retryTimer) clearTimeout(retryTimer)
+    }
+  }, [stopId])
+
+  return { buses, unlocated, mode }
+}
@@ -0,0 +1,8 @@
+// Runs once when a server instance starts
+export async function register() {
+  // The recorder needs the filesystem, so only on the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startHistoryRecorder } = await import("@/lib/tfl/history")
+    startHistoryRecorder()
+  }
+}
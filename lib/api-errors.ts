@@ -0,0 +1,79 @@
+// Error envelope every /api route answers with when it fails. Shared by the
+// route handlers and the components that call them, so keep it free of
+// server-only imports.
+
+export type ApiErrorCode =
+  | "INVALID_PARAMS"
+  | "UNAUTHORIZED"
+  | "STOP_NOT_FOUND"
+  | "VEHICLE_NOT_FOUND"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_ERROR"
+  | "INTERNAL_ERROR"
+
+export interface ApiErrorDetails {
+  code: ApiErrorCode
+  message: string
+  // What TfL answered with, when the failure came from upstream
+  upstreamStatus: number | null
+  // Seconds to wait before trying again; null when retrying won't help
+  retryAfter: number | null
+}
+
+export interface ApiErrorBody {
+  error: ApiErrorDetails
+}
+
+// Best guess for responses that didn't come from our handlers (proxies, a
+// crashed route) and so carry no envelope
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400) return "INVALID_PARAMS"
+  if (status === 401) return "UNAUTHORIZED"
+  if (status === 404) return "NOT_FOUND"
+  if (status === 429) return "RATE_LIMITED"
+  if (status === 504) return "UPSTREAM_TIMEOUT"
+  if (status === 502 || status === 503) return "UPSTREAM_ERROR"
+  return "INTERNAL_ERROR"
+}
+
+const isApiErrorBody = (body: unknown): body is ApiErrorBody =>
+  typeof body === "object" &&
+  body !== null &&
+  typeof (body as ApiErrorBody).error === "object" &&
+  typeof (body as ApiErrorBody).error?.code === "string"
+
+// Reads the envelope off a failed response
+export async function readApiError(response: Response): Promise<ApiErrorDetails> {
+  const body = await response.json().catch(() => null)
+  if (isApiErrorBody(body)) return body.error
+
+  const retryAfter = Number(response.headers.get("Retry-After"))
+  return {
+    code: codeForStatus(response.status),
+    message: response.statusText || `Request failed with ${response.status}`,
+    upstreamStatus: null,
+    retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null,
+  }
+}
+
+// Thrown by client fetch helpers so catch blocks can branch on the code
+export class ApiRequestError extends Error {
+  details: ApiErrorDetails
+
+  constructor(details: ApiErrorDetails) {
+    super(details.message)
+    this.name = "ApiRequestError"
+    this.details = details
+  }
+
+  get code() {
+    return this.details.code
+  }
+}
+
+export async function assertOk(response: Response) {
+  if (!response.ok) throw new ApiRequestError(await readApiError(response))
+  return response
+}
@@ -0,0 +1,96 @@
+import { cached } from "@/lib/tfl/cache"
+import { searchPlaces } from "@/lib/tfl/client"
+import type { NearbyStop } from "@/lib/tfl/nearby"
+
+// Turns a postcode or a place name into coordinates, so search can offer the
+// stops around it
+
+export interface GeocodedPlace {
+  name: string
+  kind: "postcode" | "place"
+  lat: number
+  lon: number
+}
+
+// A geocoded search result with the stops around it
+export interface PlaceSearchResult extends GeocodedPlace {
+  stops: NearbyStop[]
+}
+
+const POSTCODES_BASE = process.env.POSTCODES_API_BASE || "https://api.postcodes.io"
+const POSTCODE_TIMEOUT_MS = 5_000
+// Places don't move; postcodes barely do
+const GEOCODE_TTL_MS = 24 * 60 * 60 * 1000
+// Search asks on every pause in typing; shorter names are rarely a place yet
+const MIN_PLACE_QUERY_LENGTH = 4
+
+// Full postcode (SE1 9SG) or just the outward code (SE1)
+const FULL_POSTCODE_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}$/i
+const OUTCODE_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]?$/i
+
+interface PostcodesResponse {
+  status: number
+  result?: { postcode?: string; outcode?: string; latitude: number | null; longitude: number | null }
+}
+
+export function looksLikePostcode(query: string) {
+  const trimmed = query.trim()
+  return FULL_POSTCODE_PATTERN.test(trimmed) || OUTCODE_PATTERN.test(trimmed)
+}
+
+interface GeocodeOptions {
+  // The caller's own deadline, on top of ours for postcodes.io
+  signal?: AbortSignal
+}
+
+async function lookupPostcode(query: string, { signal }: GeocodeOptions): Promise<GeocodedPlace | null> {
+  const trimmed = query.trim().toUpperCase()
+  const endpoint = FULL_POSTCODE_PATTERN.test(trimmed) ? "postcodes" : "outcodes"
+  const url = `${POSTCODES_BASE}/${endpoint}/${encodeURIComponent(trimmed.replace(/\s+/g, ""))}`
+
+  const timeout = AbortSignal.timeout(POSTCODE_TIMEOUT_MS)
+  const res = await fetch(url, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout })
+  if (res.status === 404) return null
+  if (!res.ok) throw new Error(`postcodes.io ${res.status} for ${endpoint}/${trimmed}`)
+
+  const { result } = (await res.json()) as PostcodesResponse
+  if (!result || result.latitude === null || result.longitude === null) return null
+  return {
+    name: result.postcode ?? result.outcode ?? trimmed,
+    kind: "postcode",
+    lat: result.latitude,
+    lon: result.longitude,
+  }
+}
+
+async function lookupPlace(query: string, { signal }: GeocodeOptions): Promise<GeocodedPlace | null> {
+  const places = await searchPlaces(query.trim(), { signal })
+  const place = places.find((p) => Number.isFinite(p.lat) && Number.isFinite(p.lon))
+  return place ? { name: place.commonName, kind: "place", lat: place.lat, lon: place.lon } : null
+}
+
+// Null when the query is neither a known postcode nor a TfL place
+export function geocode(query: string, options: GeocodeOptions = {}) {
+  const normalized = query.trim().replace(/\s+/g, " ").toLowerCase()
+  if (normalized.length < MIN_PLACE_QUERY_LENGTH && !looksLikePostcode(normalized)) {
+    return Promise.resolve(null)
+  }
+
+  return cached<GeocodedPlace | null>(
+    `geocode:${normalized}`,
+    async () => {
+      if (looksLikePostcode(normalized)) {
+        try {
+          const postcode = await lookupPostcode(normalized, options)
+          if (postcode) return postcode
+        } catch (error) {
+          if (options.signal?.aborted) throw error
+          // postcodes.io being down shouldn't stop a TfL place lookup
+          console.error("Postcode lookup error:", error)
+        }
+      }
+      return lookupPlace(normalized, options)
+    },
+    () => GEOCODE_TTL_MS,
+  )
+}
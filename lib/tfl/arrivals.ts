@@ -0,0 +1,81 @@
+import { getCachedStopArrivals } from "@/lib/tfl/cache"
+import { isGroupId, resolveHubStopIds } from "@/lib/tfl/stops"
+import type { Prediction } from "@/lib/tfl/types"
+
+// Arrival shape served to the browser by /api/tfl/arrivals and the stream.
+// Bump the version whenever a field changes meaning or goes away, so clients
+// holding older copies (localStorage, open streams) can tell them apart.
+export const BUS_ARRIVAL_VERSION = 2
+
+export interface BusArrival {
+  version: typeof BUS_ARRIVAL_VERSION
+  id: string
+  vehicleId: string
+  lineId: string
+  lineName: string
+  destinationName: string
+  timeToStation: number
+  expectedArrival: string
+  // When TfL stops vouching for this prediction
+  timeToLive: string | null
+  // The stop being predicted for; differs from the requested one for hubs
+  naptanId: string
+  stationName: string
+  // Stop letter the bus calls at ("R"), when the stop has one
+  platformName: string | null
+  direction: "inbound" | "outbound" | null
+  towards: string | null
+  // Where the bus is now, e.g. "Elephant & Castle"
+  currentLocation: string | null
+  bearing: number | null
+}
+
+// TfL sends "" and "null" for fields it doesn't know
+const text = (value?: string) => (value && value.trim() && value !== "null" ? value.trim() : null)
+
+const toDirection = (value?: string): BusArrival["direction"] =>
+  value === "inbound" || value === "outbound" ? value : null
+
+const toBearing = (value?: string) => {
+  const bearing = Number(value)
+  return value && Number.isFinite(bearing) ? bearing : null
+}
+
+export const toBusArrival = (arrival: Prediction): BusArrival => ({
+  version: BUS_ARRIVAL_VERSION,
+  id: arrival.id,
+  vehicleId: arrival.vehicleId,
+  lineId: arrival.lineId,
+  lineName: arrival.lineName,
+  destinationName: arrival.destinationName,
+  timeToStation: arrival.timeToStation,
+  expectedArrival: arrival.expectedArrival,
+  timeToLive: text(arrival.timeToLive),
+  naptanId: arrival.naptanId,
+  stationName: arrival.stationName,
+  platformName: text(arrival.platformName),
+  direction: toDirection(arrival.direction),
+  towards: text(arrival.towards),
+  currentLocation: text(arrival.currentLocation),
+  bearing: toBearing(arrival.bearing),
+})
+
+// Arrivals at several stops merged into one board, soonest first. A stop that
+// fails is left off the board unless they all fail.
+export async function getBusArrivalsForStops(stopIds: string[]): Promise<BusArrival[]> {
+  const results = await Promise.allSettled([...new Set(stopIds)].map((id) => getCachedStopArrivals(id)))
+  const loaded = results.filter((r): r is PromiseFulfilledResult<Prediction[]> => r.status === "fulfilled")
+  if (loaded.length === 0 && results.length > 0) throw (results[0] as PromiseRejectedResult).reason
+
+  for (const result of results) {
+    if (result.status === "rejected") console.error("Arrivals for one stop of a board failed:", result.reason)
+  }
+  return loaded.flatMap((r) => r.value.map(toBusArrival)).sort((a, b) => a.timeToStation - b.timeToStation)
+}
+
+// A stop ID, or a group ID standing for all of its bus stops
+export async function getBusArrivals(stopId: string): Promise<BusArrival[]> {
+  if (isGroupId(stopId)) return getBusArrivalsForStops(await resolveHubStopIds(stopId))
+  const data = await getCachedStopArrivals(stopId)
+  return data.map(toBusArrival)
+}
@@ -0,0 +1,212 @@
+import { getCachedStopArrivals, getCachedVehicleArrivals } from "@/lib/tfl/cache"
+import { TflError, TflUnreachableError } from "@/lib/tfl/client"
+import { getLineRoute, type RouteStop } from "@/lib/tfl/lines"
+import { bearingDegrees, distanceMetres } from "@/lib/tfl/nearby"
+import type { Prediction, VehiclePrediction } from "@/lib/tfl/types"
+
+// Positions of the buses heading for a stop
+
+export interface BusLocation {
+  id: string
+  lineName: string
+  vehicleId: string
+  lat: number
+  lon: number
+  destination: string
+  bearing: number
+  // ETA to the stop the buses were looked up for
+  timeToStation: number
+  expectedArrival: string
+  // "estimated" positions are interpolated along the route from predictions
+  positionSource: "reported" | "estimated"
+}
+
+// Vehicles we know are coming but couldn't place on the map
+export interface BusLocationFailure {
+  vehicleIds: string[]
+  reason: "upstream-error" | "no-position"
+  error?: string
+}
+
+export interface BusLocations {
+  buses: BusLocation[]
+  failures: BusLocationFailure[]
+}
+
+// TfL accepts a comma-separated list; keep URLs and responses a sane size
+const VEHICLE_BATCH_SIZE = 20
+// Typical London bus speed including time spent at stops, for when the
+// vehicle's own predictions don't say how fast it's going
+const AVERAGE_BUS_SPEED_MPS = 4.5
+// How many stops past the next one set the pace from predictions
+const PACE_STOPS = 3
+// Outside these, a pace from predictions is a glitch rather than traffic
+const MIN_PREDICTED_SPEED_MPS = 0.5
+const MAX_PREDICTED_SPEED_MPS = 20
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size))
+
+const describeError = (error: unknown) =>
+  error instanceof TflUnreachableError
+    ? "TfL unreachable"
+    : error instanceof TflError
+      ? `TfL ${error.status}`
+      : error instanceof Error
+        ? error.message
+        : "Unknown error"
+
+// Where a bus `secondsAway` from stop `index` should be: walk back along the
+// stop sequence at average speed and interpolate within the segment it lands in
+function positionBefore(stops: RouteStop[], index: number, secondsAway: number) {
+  let remaining = Math.max(0, secondsAway) * AVERAGE_BUS_SPEED_MPS
+  for (let i = index; i > 0; i--) {
+    const previous = stops[i - 1]
+    const next = stops[i]
+    const segment = distanceMetres(previous, next)
+    if (remaining <= segment || i === 1) {
+      const fraction = segment > 0 ? Math.min(1, remaining / segment) : 0
+      return {
+        lat: next.lat + (previous.lat - next.lat) * fraction,
+        lon: next.lon + (previous.lon - next.lon) * fraction,
+        bearing: Math.round(bearingDegrees(previous, next)),
+      }
+    }
+    remaining -= segment
+  }
+
+  // Next stop is the first on the route: the bus is waiting at the stand
+  return { lat: stops[index].lat, lon: stops[index].lon, bearing: 0 }
+}
+
+// How fast TfL expects the bus to run just past its next stop: metres along
+// the route over the predicted seconds between stop `index` and a later one
+function predictedSpeed(stops: RouteStop[], index: number, upcoming: Prediction[]) {
+  const secondsTo = new Map(upcoming.map((p) => [p.naptanId, p.timeToStation]))
+  const from = secondsTo.get(stops[index].id)
+  if (from === undefined) return null
+
+  let metres = 0
+  let speed: number | null = null
+  for (let i = index + 1; i < stops.length && i <= index + PACE_STOPS; i++) {
+    metres += distanceMetres(stops[i - 1], stops[i])
+    const to = secondsTo.get(stops[i].id)
+    // The furthest predicted stop in reach smooths out one slow or quick hop
+    if (to !== undefined && to > from) speed = metres / (to - from)
+  }
+  return speed !== null && speed >= MIN_PREDICTED_SPEED_MPS && speed <= MAX_PREDICTED_SPEED_MPS ? speed : null
+}
+
+// A bus whose next stop is `index` is between that stop and the one before:
+// place it by the share of the segment's travel time it still has to go
+function positionBetween(stops: RouteStop[], index: number, secondsAway: number, speed: number) {
+  if (index === 0) return { lat: stops[0].lat, lon: stops[0].lon, bearing: 0 }
+  const previous = stops[index - 1]
+  const next = stops[index]
+  const segmentSeconds = distanceMetres(previous, next) / speed
+  const fraction = segmentSeconds > 0 ? Math.min(1, Math.max(0, secondsAway) / segmentSeconds) : 0
+  return {
+    lat: next.lat + (previous.lat - next.lat) * fraction,
+    lon: next.lon + (previous.lon - next.lon) * fraction,
+    bearing: Math.round(bearingDegrees(previous, next)),
+  }
+}
+
+// `next` is the bus's prediction for the stop it reaches next when we have the
+// vehicle's own predictions (`upcoming`), else only for the stop we looked up
+async function estimatePosition(next: Prediction, upcoming: Prediction[]) {
+  try {
+    const route = await getLineRoute(next.lineId)
+    // Prefer the direction TfL says the bus is running in; fall back to any
+    // direction that calls at the stop
+    const directions = [...route.directions].sort(
+      (a, b) => Number(b.direction === next.direction) - Number(a.direction === next.direction),
+    )
+    for (const { stops } of directions) {
+      const index = stops.findIndex((stop) => stop.id === next.naptanId)
+      if (index < 0) continue
+      if (upcoming.length === 0) return positionBefore(stops, index, next.timeToStation)
+      const speed = predictedSpeed(stops, index, upcoming) ?? AVERAGE_BUS_SPEED_MPS
+      return positionBetween(stops, index, next.timeToStation, speed)
+    }
+  } catch (error) {
+    console.error(`Couldn't load route ${next.lineId} to estimate bus positions:`, error)
+  }
+  return null
+}
+
+export async function getBusLocations(stopId: string): Promise<BusLocations> {
+  // 1. Arrivals at the stop say which vehicles are coming and when
+  const arrivalsData = await getCachedStopArrivals(stopId)
+
+  // Soonest prediction per vehicle
+  const arrivalByVehicle = new Map<string, Prediction>()
+  for (const arrival of [...arrivalsData].sort((a, b) => a.timeToStation - b.timeToStation)) {
+    if (arrival.vehicleId && !arrivalByVehicle.has(arrival.vehicleId)) arrivalByVehicle.set(arrival.vehicleId, arrival)
+  }
+
+  const vehicleIds = [...arrivalByVehicle.keys()]
+  if (vehicleIds.length === 0) return { buses: [], failures: [] }
+
+  // 2. Every vehicle's own predictions, a batch per TfL call
+  const batchIds = chunk(vehicleIds, VEHICLE_BATCH_SIZE)
+  const batches = await Promise.allSettled(batchIds.map((ids) => getCachedVehicleArrivals(ids)))
+
+  const reported = new Map<string, VehiclePrediction>()
+  // Each vehicle's predictions for the stops ahead of it
+  const upcoming = new Map<string, Prediction[]>()
+  const batchErrors = new Map<string, string>()
+
+  batches.forEach((batch, i) => {
+    if (batch.status === "rejected") {
+      for (const id of batchIds[i]) batchErrors.set(id, describeError(batch.reason))
+      return
+    }
+    for (const prediction of batch.value) {
+      const id = prediction.vehicleId
+      // The first prediction carrying a position is the freshest one for that vehicle
+      if (prediction.lat && prediction.lon && !reported.has(id)) reported.set(id, prediction)
+      upcoming.set(id, [...(upcoming.get(id) ?? []), prediction])
+    }
+  })
+
+  // 3. Reported positions where TfL has them, otherwise an estimate between
+  //    the vehicle's next stop and the one before, paced by its predictions;
+  //    with none of its own, walked back from this stop at average speed
+  const placed = await Promise.all(
+    vehicleIds.map(async (id): Promise<BusLocation | null> => {
+      const arrival = arrivalByVehicle.get(id) as Prediction
+      const base = {
+        id,
+        lineName: arrival.lineName,
+        vehicleId: id,
+        destination: arrival.destinationName,
+        timeToStation: arrival.timeToStation,
+        expectedArrival: arrival.expectedArrival,
+      }
+
+      const position = reported.get(id)
+      if (position?.lat && position.lon) {
+        return { ...base, lat: position.lat, lon: position.lon, bearing: Number(position.bearing) || 0, positionSource: "reported" }
+      }
+
+      const ahead = upcoming.get(id) ?? []
+      const next = ahead.length > 0 ? ahead.reduce((a, b) => (b.timeToStation < a.timeToStation ? b : a)) : null
+      const estimate = await estimatePosition(next ?? arrival, next ? ahead : [])
+      return estimate ? { ...base, ...estimate, positionSource: "estimated" } : null
+    }),
+  )
+
+  const buses = placed.filter((bus): bus is BusLocation => bus !== null)
+  const unplaced = vehicleIds.filter((_, i) => placed[i] === null)
+
+  const failures: BusLocationFailure[] = []
+  const failedUpstream = unplaced.filter((id) => batchErrors.has(id))
+  if (failedUpstream.length > 0) {
+    failures.push({ vehicleIds: failedUpstream, reason: "upstream-error", error: batchErrors.get(failedUpstream[0]) })
+  }
+  const withoutPosition = unplaced.filter((id) => !batchErrors.has(id))
+  if (withoutPosition.length > 0) failures.push({ vehicleIds: withoutPosition, reason: "no-position" })
+
+  return { buses: buses.sort((a, b) => a.timeToStation - b.timeToStation), failures }
+}
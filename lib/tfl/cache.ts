@@ -0,0 +1,140 @@
+import { getStopArrivals, getVehicleArrivals } from "@/lib/tfl/client"
+import type { Prediction } from "@/lib/tfl/types"
+
+// In-process cache shared by every route in this server instance. Concurrent
+// misses for the same key share one upstream request.
+
+interface Entry<T> {
+  value?: T
+  expiresAt: number
+  pending?: Promise<T>
+}
+
+interface Counts {
+  hits: number
+  misses: number
+  coalesced: number
+}
+
+export interface CacheStats extends Counts {
+  size: number
+  // Share of lookups answered without a new upstream request; null before any
+  hitRatio: number | null
+  // The same per kind of key, e.g. "stop:*:arrivals"
+  byKind: Record<string, Counts & { hitRatio: number | null }>
+}
+
+const MIN_TTL_MS = 5_000
+const MAX_TTL_MS = 30_000
+const EMPTY_TTL_MS = 10_000
+const MAX_ENTRIES = 1000
+
+// Keep the store on globalThis so dev-mode hot reloads don't drop it
+interface Store {
+  entries: Map<string, Entry<unknown>>
+  stats: Counts
+  kinds?: Map<string, Counts>
+}
+const globalStore = globalThis as typeof globalThis & { __tflCache?: Store }
+const store: Store = (globalStore.__tflCache ??= {
+  entries: new Map(),
+  stats: { hits: 0, misses: 0, coalesced: 0 },
+})
+const kinds = (store.kinds ??= new Map())
+
+// Keys look like "stop:490014270R:arrivals"; drop the ID to group them
+const keyKind = (key: string) => {
+  const parts = key.split(":")
+  return parts.length >= 3 ? `${parts[0]}:*:${parts[parts.length - 1]}` : parts[0]
+}
+
+function count(key: string, outcome: keyof Counts) {
+  store.stats[outcome]++
+  const kind = keyKind(key)
+  const counts = kinds.get(kind) ?? { hits: 0, misses: 0, coalesced: 0 }
+  counts[outcome]++
+  kinds.set(kind, counts)
+}
+
+// Coalesced callers waited on someone else's request, so they count as hits
+const hitRatio = ({ hits, misses, coalesced }: Counts) =>
+  hits + misses + coalesced > 0 ? (hits + coalesced) / (hits + misses + coalesced) : null
+
+function prune(now: number) {
+  if (store.entries.size < MAX_ENTRIES) return
+  for (const [key, entry] of store.entries) {
+    if (!entry.pending && entry.expiresAt <= now) store.entries.delete(key)
+  }
+  // Still full of live entries: drop the oldest insertions, but never a load
+  // in flight, or the next caller would start a second one
+  for (const [key, entry] of store.entries) {
+    if (store.entries.size < MAX_ENTRIES) break
+    if (!entry.pending) store.entries.delete(key)
+  }
+}
+
+export async function cached<T>(key: string, loader: () => Promise<T>, ttlMs: (value: T) => number): Promise<T> {
+  const now = Date.now()
+  const entry = store.entries.get(key) as Entry<T> | undefined
+
+  if (entry?.pending) {
+    count(key, "coalesced")
+    return entry.pending
+  }
+  if (entry && entry.value !== undefined && entry.expiresAt > now) {
+    count(key, "hits")
+    return entry.value
+  }
+
+  count(key, "misses")
+  prune(now)
+
+  const pending = loader()
+  const current: Entry<T> = { ...entry, expiresAt: entry?.expiresAt ?? 0, pending }
+  store.entries.set(key, current)
+
+  // Only touch the entry if it's still ours; it may have been evicted and
+  // replaced by a newer load meanwhile
+  const isCurrent = () => store.entries.get(key) === current
+  try {
+    const value = await pending
+    if (isCurrent()) store.entries.set(key, { value, expiresAt: Date.now() + ttlMs(value) })
+    return value
+  } catch (error) {
+    // Don't cache failures; the next caller retries upstream
+    if (isCurrent()) store.entries.delete(key)
+    throw error
+  }
+}
+
+export function getCacheStats(): CacheStats {
+  return {
+    ...store.stats,
+    size: store.entries.size,
+    hitRatio: hitRatio(store.stats),
+    byKind: Object.fromEntries(
+      [...kinds.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([kind, c]) => [kind, { ...c, hitRatio: hitRatio(c) }]),
+    ),
+  }
+}
+
+// TfL marks each prediction with the time it stops being valid. Cache until
+// the earliest of those, within sane bounds.
+export function predictionTtl(predictions: Prediction[]) {
+  const now = Date.now()
+  const expiries = predictions
+    .map((p) => (p.timeToLive ? Date.parse(p.timeToLive) - now : NaN))
+    .filter((ms) => Number.isFinite(ms))
+
+  if (expiries.length === 0) return predictions.length === 0 ? EMPTY_TTL_MS : MIN_TTL_MS
+  return Math.min(MAX_TTL_MS, Math.max(MIN_TTL_MS, Math.min(...expiries)))
+}
+
+export function getCachedStopArrivals(stopId: string) {
+  return cached(`stop:${stopId}:arrivals`, () => getStopArrivals(stopId), predictionTtl)
+}
+
+export function getCachedVehicleArrivals(vehicleIds: string | string[]) {
+  const ids = Array.isArray(vehicleIds) ? [...vehicleIds].sort() : [vehicleIds]
+  return cached(`vehicle:${ids.join(",")}:arrivals`, () => getVehicleArrivals(ids), predictionTtl)
+}
@@ -0,0 +1,274 @@
+import type {
+  DisruptedPoint,
+  JourneyResults,
+  Line,
+  Place,
+  Prediction,
+  RouteSequence,
+  StopPoint,
+  StopPointSearchResponse,
+  StopPointsResponse,
+  TimetableResponse,
+  VehiclePrediction,
+} from "@/lib/tfl/types"
+import { getTflMode, recordFixture, replayFixture } from "@/lib/tfl/fixtures"
+import { recordUpstream } from "@/lib/tfl/metrics"
+
+// Shared TfL Unified API client. Every /api/tfl route goes through here so
+// app keys, timeouts and retries are applied consistently.
+
+const TFL_BASE = process.env.TFL_API_BASE || "https://api.tfl.gov.uk"
+const APP_ID = process.env.TFL_APP_ID
+const APP_KEY = process.env.TFL_APP_KEY
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 250
+const MAX_RETRY_DELAY_MS = 2000
+
+export type TflParams = Record<string, string | number | undefined | null>
+
+export interface TflRequestOptions {
+  params?: TflParams
+  // Per-attempt timeout; each retry gets a fresh budget
+  timeoutMs?: number
+  // Extra attempts after the first, only for 429/5xx and network failures
+  retries?: number
+  // Aborts every attempt; an AbortSignal.timeout() deadline surfaces as a 504
+  signal?: AbortSignal
+}
+
+export class TflError extends Error {
+  status: number
+  path: string
+  retryAfter: number | null
+  // Raw response text, for endpoints that explain failures in the body
+  body: string
+
+  constructor(message: string, status: number, path: string, retryAfter: number | null = null, body = "") {
+    super(message)
+    this.name = "TflError"
+    this.status = status
+    this.path = path
+    this.retryAfter = retryAfter
+    this.body = body
+  }
+}
+
+// fetch itself failed (DNS, refused, reset): TfL never answered, so there is
+// no real status. Passed around as a 502 so it's retried like one.
+export class TflUnreachableError extends TflError {
+  constructor(path: string, cause: unknown) {
+    super(`TfL is unreachable: ${cause instanceof Error ? cause.message : String(cause)}`, 502, path)
+    this.name = "TflUnreachableError"
+  }
+}
+
+// Build a TfL URL with query params + app keys (better rate limits)
+export function tflUrl(path: string, params: TflParams = {}) {
+  const url = new URL(path, TFL_BASE)
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined && v !== null) url.searchParams.set(k, String(v))
+  }
+  if (APP_ID && APP_KEY) {
+    url.searchParams.set("app_id", APP_ID)
+    url.searchParams.set("app_key", APP_KEY)
+  }
+  return url.toString()
+}
+
+const isRetryable = (status: number) => status === 429 || status >= 500
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (header: string | null) => {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, Math.round((date - Date.now()) / 1000))
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function attempt<T>(url: string, path: string, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  // Hard timeout to stop slow upstream requests
+  const ac = new AbortController()
+  const timeout = setTimeout(() => ac.abort(), timeoutMs)
+  const onAbort = () => ac.abort()
+  signal?.addEventListener("abort", onAbort)
+  // The deadline may have passed while we backed off between attempts
+  if (signal?.aborted) ac.abort()
+  const started = performance.now()
+
+  try {
+    const res = await fetch(url, {
+      signal: ac.signal,
+      cache: "no-store", // avoid Next/Vercel data cache; callers decide caching
+      headers: { "Cache-Control": "no-cache" },
+    })
+    recordUpstream(path, res.status, performance.now() - started)
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "")
+      throw new TflError(
+        `TfL ${res.status}: ${txt || res.statusText}`,
+        res.status,
+        path,
+        parseRetryAfter(res.headers.get("Retry-After")),
+        txt,
+      )
+    }
+    return (await res.json()) as T
+  } catch (error) {
+    if (error instanceof TflError) throw error
+    if (signal?.aborted) {
+      // The caller's overall deadline ran out: as much a timeout as our own
+      if (signal.reason instanceof DOMException && signal.reason.name === "TimeoutError") {
+        recordUpstream(path, "timeout", performance.now() - started)
+        throw new TflError("TfL request ran past the caller's deadline", 504, path)
+      }
+      recordUpstream(path, "aborted", performance.now() - started)
+      throw error
+    }
+    if (ac.signal.aborted) {
+      recordUpstream(path, "timeout", performance.now() - started)
+      throw new TflError(`TfL request timed out after ${timeoutMs}ms`, 504, path)
+    }
+    // Anything else past this point is a body that wasn't JSON
+    if (!(error instanceof TypeError)) throw error
+    recordUpstream(path, "network", performance.now() - started)
+    throw new TflUnreachableError(path, error)
+  } finally {
+    clearTimeout(timeout)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+export async function tflFetch<T>(path: string, options: TflRequestOptions = {}): Promise<T> {
+  const mode = getTflMode()
+
+  if (mode === "replay") {
+    const started = performance.now()
+    const body = await replayFixture<T>(path, options.params)
+    recordUpstream(path, body === null ? 404 : 200, performance.now() - started)
+    if (body === null) throw new TflError(`No TfL fixture for ${path}`, 404, path)
+    return body
+  }
+
+  const body = await fetchWithRetries<T>(path, options)
+  if (mode === "record") await recordFixture(path, options.params, body)
+  return body
+}
+
+async function fetchWithRetries<T>(path: string, options: TflRequestOptions): Promise<T> {
+  const { params, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, signal } = options
+  const url = tflUrl(path, params)
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt<T>(url, path, timeoutMs, signal)
+    } catch (error) {
+      if (signal?.aborted || i >= retries) throw error
+      // Unreachable TfL comes through as a 502, so network failures retry too
+      if (!(error instanceof TflError) || !isRetryable(error.status)) throw error
+
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** i
+      const hinted = error.retryAfter !== null ? error.retryAfter * 1000 : 0
+      await sleep(Math.min(Math.max(backoff, hinted), MAX_RETRY_DELAY_MS))
+    }
+  }
+}
+
+// --- ENDPOINTS ---
+
+export function searchStopPoints(query: string, options: TflRequestOptions = {}) {
+  return tflFetch<StopPointSearchResponse>("/StopPoint/Search", {
+    ...options,
+    params: { query, modes: "bus", maxResults: 6, ...options.params },
+  })
+}
+
+// TfL returns a single object for one id and an array for several
+export async function getStopPoints(ids: string[], options: TflRequestOptions = {}) {
+  const data = await tflFetch<StopPoint | StopPoint[]>(`/StopPoint/${ids.map(encodeURIComponent).join(",")}`, options)
+  return Array.isArray(data) ? data : [data]
+}
+
+export function getStopPoint(id: string, options: TflRequestOptions = {}) {
+  return tflFetch<StopPoint>(`/StopPoint/${encodeURIComponent(id)}`, options)
+}
+
+export interface BoundingBox {
+  swLat: number
+  swLon: number
+  neLat: number
+  neLon: number
+}
+
+// Answered as a bare list or wrapped like the radius search; accept either
+export async function getStopPointsInBox(box: BoundingBox, options: TflRequestOptions = {}) {
+  const data = await tflFetch<StopPoint[] | StopPointsResponse>("/StopPoint", {
+    ...options,
+    params: { stopTypes: "NaptanPublicBusCoachTram", ...box, ...options.params },
+  })
+  return Array.isArray(data) ? data : (data.stopPoints ?? [])
+}
+
+// The 5-digit code printed on the stop flag
+export function getStopPointBySms(smsCode: string, options: TflRequestOptions = {}) {
+  return tflFetch<StopPoint>(`/StopPoint/Sms/${encodeURIComponent(smsCode)}`, options)
+}
+
+export function getStopPointsByRadius(lat: number | string, lon: number | string, radius: number | string, options: TflRequestOptions = {}) {
+  return tflFetch<StopPointsResponse>("/StopPoint", {
+    ...options,
+    params: { stopTypes: "NaptanPublicBusCoachTram", radius, lat, lon, ...options.params },
+  })
+}
+
+export function getStopArrivals(stopId: string, options: TflRequestOptions = {}) {
+  return tflFetch<Prediction[]>(`/StopPoint/${encodeURIComponent(stopId)}/Arrivals`, options)
+}
+
+// Several vehicles go in one call as a comma-separated list
+export function getVehicleArrivals(vehicleIds: string | string[], options: TflRequestOptions = {}) {
+  const ids = Array.isArray(vehicleIds) ? vehicleIds : [vehicleIds]
+  return tflFetch<VehiclePrediction[]>(`/Vehicle/${ids.map(encodeURIComponent).join(",")}/Arrivals`, options)
+}
+
+export function getLineRouteSequence(lineId: string, direction: "inbound" | "outbound", options: TflRequestOptions = {}) {
+  return tflFetch<RouteSequence>(`/Line/${encodeURIComponent(lineId)}/Route/Sequence/${direction}`, {
+    ...options,
+    params: { serviceTypes: "Regular", excludeCrowding: "true", ...options.params },
+  })
+}
+
+export function getLineStatuses(lineIds: string[], options: TflRequestOptions = {}) {
+  return tflFetch<Line[]>(`/Line/${lineIds.map(encodeURIComponent).join(",")}/Status`, {
+    ...options,
+    params: { detail: "true", ...options.params },
+  })
+}
+
+export function getStopDisruptions(stopId: string, options: TflRequestOptions = {}) {
+  return tflFetch<DisruptedPoint[]>(`/StopPoint/${encodeURIComponent(stopId)}/Disruption`, options)
+}
+
+// Locations are "lat,lon", a NaPTAN id or free text
+export function getJourneyResults(from: string, to: string, options: TflRequestOptions = {}) {
+  return tflFetch<JourneyResults>(`/Journey/JourneyResults/${encodeURIComponent(from)}/to/${encodeURIComponent(to)}`, {
+    ...options,
+    params: { mode: "bus,walking", ...options.params },
+  })
+}
+
+// Named places (landmarks, areas, stations...) matching free text
+export function searchPlaces(name: string, options: TflRequestOptions = {}) {
+  return tflFetch<Place[]>("/Place/Search", { ...options, params: { name, ...options.params } })
+}
+
+export function getLineTimetable(lineId: string, stopId: string, options: TflRequestOptions = {}) {
+  return tflFetch<TimetableResponse>(
+    `/Line/${encodeURIComponent(lineId)}/Timetable/${encodeURIComponent(stopId)}`,
+    options,
+  )
+}
@@ -0,0 +1,93 @@
+import { cached } from "@/lib/tfl/cache"
+import { getLineStatuses, getStopDisruptions } from "@/lib/tfl/client"
+import type { DisruptedPoint, Line, LineStatus } from "@/lib/tfl/types"
+
+// Line status and stop closures for one stop, collapsed into a few levels the
+// UI can colour without knowing TfL's severity codes
+
+export type DisruptionLevel = "closed" | "severe" | "minor" | "info"
+
+export interface LineDisruption {
+  lineId: string
+  lineName: string
+  level: DisruptionLevel
+  status: string
+  description: string
+}
+
+export interface StopDisruption {
+  level: DisruptionLevel
+  type: string
+  description: string
+  fromDate: string | null
+  toDate: string | null
+}
+
+export interface StopDisruptions {
+  lines: LineDisruption[]
+  stop: StopDisruption[]
+}
+
+const DISRUPTIONS_TTL_MS = 60_000
+
+// TfL statusSeverity codes: https://api.tfl.gov.uk/Line/Meta/Severity
+const GOOD_SEVERITIES = new Set([10, 18])
+const CLOSED_SEVERITIES = new Set([1, 2, 3, 4, 5, 11, 16, 20])
+const SEVERE_SEVERITIES = new Set([6, 7])
+const INFO_SEVERITIES = new Set([0, 19])
+
+const severityLevel = (severity: number): DisruptionLevel => {
+  if (CLOSED_SEVERITIES.has(severity)) return "closed"
+  if (SEVERE_SEVERITIES.has(severity)) return "severe"
+  if (INFO_SEVERITIES.has(severity)) return "info"
+  return "minor"
+}
+
+const LEVEL_RANK: Record<DisruptionLevel, number> = { closed: 0, severe: 1, minor: 2, info: 3 }
+
+export const byLevel = (a: { level: DisruptionLevel }, b: { level: DisruptionLevel }) =>
+  LEVEL_RANK[a.level] - LEVEL_RANK[b.level]
+
+function toLineDisruptions(line: Line): LineDisruption[] {
+  return (line.lineStatuses ?? [])
+    .filter((status: LineStatus) => !GOOD_SEVERITIES.has(status.statusSeverity))
+    .map((status) => ({
+      lineId: line.id,
+      lineName: line.name,
+      level: severityLevel(status.statusSeverity),
+      status: status.statusSeverityDescription,
+      description: (status.reason || status.disruption?.description || status.statusSeverityDescription).trim(),
+    }))
+}
+
+function toStopDisruption(point: DisruptedPoint): StopDisruption {
+  const text = `${point.type ?? ""} ${point.description ?? ""}`
+  return {
+    level: /clos|suspend|not in use|out of use/i.test(text) ? "closed" : "minor",
+    type: point.type ?? "Disruption",
+    description: (point.description ?? "").trim(),
+    fromDate: point.fromDate ?? null,
+    toDate: point.toDate ?? null,
+  }
+}
+
+async function loadDisruptions(stopId: string, lineIds: string[]): Promise<StopDisruptions> {
+  const [lines, stop] = await Promise.all([
+    lineIds.length > 0 ? getLineStatuses(lineIds) : Promise.resolve([] as Line[]),
+    getStopDisruptions(stopId),
+  ])
+
+  return {
+    lines: lines.flatMap(toLineDisruptions).sort(byLevel),
+    stop: stop.map(toStopDisruption).sort(byLevel),
+  }
+}
+
+export function getStopDisruptionsSummary(stopId: string, lineIds: string[]) {
+  const lines = [...new Set(lineIds.map((id) => id.toLowerCase()))].sort()
+  return cached(
+    `stop:${stopId}:disruptions:${lines.join(",")}`,
+    () => loadDisruptions(stopId, lines),
+    () => DISRUPTIONS_TTL_MS,
+  )
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server"
+import type { ApiErrorBody, ApiErrorCode, ApiErrorDetails } from "@/lib/api-errors"
+import { TflError, TflUnreachableError } from "@/lib/tfl/client"
+
+// Turns failures into the shared error envelope, keeping TfL's own status
+// visible instead of flattening everything into a 500
+
+const STATUS_FOR_CODE: Record<ApiErrorCode, number> = {
+  INVALID_PARAMS: 400,
+  UNAUTHORIZED: 401,
+  STOP_NOT_FOUND: 404,
+  VEHICLE_NOT_FOUND: 404,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  INTERNAL_ERROR: 500,
+}
+
+// When TfL rate limits without saying for how long
+const DEFAULT_RATE_LIMIT_RETRY_S = 30
+const DEFAULT_UPSTREAM_RETRY_S = 10
+
+type NotFoundCode = Extract<ApiErrorCode, `${string}NOT_FOUND`>
+
+const details = (
+  code: ApiErrorCode,
+  message: string,
+  upstreamStatus: number | null = null,
+  retryAfter: number | null = null,
+): ApiErrorDetails => ({ code, message, upstreamStatus, retryAfter })
+
+// Classifies whatever a handler caught. `notFound` names what a TfL 404 means
+// for the route, e.g. STOP_NOT_FOUND for arrivals.
+export function describeError(error: unknown, fallbackMessage: string, notFound: NotFoundCode = "NOT_FOUND"): ApiErrorDetails {
+  // Only the TfL client's own errors are upstream failures; anything else is ours
+  if (!(error instanceof TflError)) return details("INTERNAL_ERROR", fallbackMessage)
+  if (error instanceof TflUnreachableError) {
+    return details("UPSTREAM_ERROR", `${fallbackMessage}: TfL is unreachable`, null, DEFAULT_UPSTREAM_RETRY_S)
+  }
+
+  const status = error.status
+  if (status === 404) return details(notFound, fallbackMessage, status)
+  if (status === 400) return details("INVALID_PARAMS", fallbackMessage, status)
+  if (status === 429) {
+    return details(
+      "RATE_LIMITED",
+      `${fallbackMessage}: TfL is rate limiting requests`,
+      status,
+      error.retryAfter ?? DEFAULT_RATE_LIMIT_RETRY_S,
+    )
+  }
+  if (status === 408 || status === 504) {
+    return details(
+      "UPSTREAM_TIMEOUT",
+      `${fallbackMessage}: TfL took too long to answer`,
+      status,
+      error.retryAfter ?? DEFAULT_UPSTREAM_RETRY_S,
+    )
+  }
+  return details(
+    "UPSTREAM_ERROR",
+    fallbackMessage,
+    status,
+    status >= 500 ? (error.retryAfter ?? DEFAULT_UPSTREAM_RETRY_S) : null,
+  )
+}
+
+export function errorResponse(error: ApiErrorDetails) {
+  const body: ApiErrorBody = { error }
+  return NextResponse.json(body, {
+    status: STATUS_FOR_CODE[error.code],
+    headers: {
+      "Cache-Control": "no-store",
+      ...(error.retryAfter !== null && { "Retry-After": String(error.retryAfter) }),
+    },
+  })
+}
+
+export const apiError = (code: ApiErrorCode, message: string) => errorResponse(details(code, message))
+
+export const invalidParams = (message: string) => apiError("INVALID_PARAMS", message)
+
+export const upstreamError = (error: unknown, fallbackMessage: string, notFound?: NotFoundCode) =>
+  errorResponse(describeError(error, fallbackMessage, notFound))
@@ -0,0 +1,184 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import type { TflParams } from "@/lib/tfl/client"
+
+// Offline stand-in for the TfL API, selected with TFL_MODE:
+//   live   (default) talk to TfL
+//   record talk to TfL and save every response as a fixture
+//   replay serve fixtures only, never touch the network
+
+export type TflMode = "live" | "record" | "replay"
+
+interface Fixture<T = unknown> {
+  recordedAt: string
+  path: string
+  params: Record<string, string>
+  body: T
+}
+
+const FIXTURES_DIR = path.resolve(process.cwd(), process.env.TFL_FIXTURES_DIR || "fixtures/tfl")
+
+// Credentials never end up in a fixture key or file
+const IGNORED_PARAMS = new Set(["app_id", "app_key"])
+
+export function getTflMode(): TflMode {
+  const mode = process.env.TFL_MODE
+  return mode === "record" || mode === "replay" ? mode : "live"
+}
+
+const normalizeParams = (params: TflParams = {}) =>
+  Object.fromEntries(
+    Object.entries(params)
+      .filter(([k, v]) => v !== undefined && v !== null && !IGNORED_PARAMS.has(k))
+      .map(([k, v]) => [k, String(v)] as const)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  )
+
+// "/StopPoint/490G00/Arrivals" + params -> "StopPoint_490G00_Arrivals__1a2b3c4d5e.json"
+function fixtureFile(tflPath: string, params: TflParams = {}) {
+  const slug = tflPath.replace(/^\/+/, "").replace(/[^A-Za-z0-9.-]+/g, "_")
+  const query = new URLSearchParams(normalizeParams(params)).toString()
+  const suffix = query ? `__${createHash("sha1").update(query).digest("hex").slice(0, 10)}` : ""
+  return path.join(FIXTURES_DIR, `${slug}${suffix}.json`)
+}
+
+// Fallback fixture per endpoint shape, so replay works for any stop or query
+function defaultFixtureFile(tflPath: string) {
+  const segments = tflPath.replace(/^\/+/, "").split("/")
+  let kind: string | null = null
+
+  if (segments[0] === "StopPoint") {
+    if (segments.length === 1) kind = "stops-nearby"
+    else if (segments[1] === "Search") kind = "stop-search"
+    else if (segments[1] === "Sms") kind = "stop-points"
+    else if (segments[2] === "Arrivals") kind = "stop-arrivals"
+    else if (segments[2] === "Disruption") kind = "stop-disruption"
+    else if (segments.length === 2) kind = "stop-points"
+  } else if (segments[0] === "Vehicle" && segments[2] === "Arrivals") {
+    kind = "vehicle-arrivals"
+  } else if (segments[0] === "Line" && segments[2] === "Route") {
+    kind = "line-route"
+  } else if (segments[0] === "Line" && segments[2] === "Timetable") {
+    kind = "line-timetable"
+  } else if (segments[0] === "Line" && segments[2] === "Status") {
+    kind = "line-status"
+  } else if (segments[0] === "Place" && segments[1] === "Search") {
+    kind = "place-search"
+  } else if (segments[0] === "Journey") {
+    kind = "journey"
+  }
+
+  return kind ? path.join(FIXTURES_DIR, "defaults", `${kind}.json`) : null
+}
+
+async function readFixture<T>(file: string | null): Promise<Fixture<T> | null> {
+  if (!file) return null
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as Fixture<T>
+  } catch {
+    return null
+  }
+}
+
+const isPrediction = (item: unknown): item is { timeToStation: number; expectedArrival?: string; timeToLive?: string; timestamp?: string } =>
+  typeof item === "object" && item !== null && typeof (item as { timeToStation?: unknown }).timeToStation === "number"
+
+// Move predictions forward by the time elapsed since recording. Buses that
+// would have arrived wrap round to the back of the cycle, so a replayed stop
+// keeps producing arrivals indefinitely.
+function advancePredictions<T>(body: T, recordedAt: string): T {
+  if (!Array.isArray(body) || !body.some(isPrediction)) return body
+
+  const now = Date.now()
+  const elapsed = Math.max(0, (now - Date.parse(recordedAt)) / 1000) || 0
+  const cycle = Math.max(...body.filter(isPrediction).map((p) => p.timeToStation)) + 120
+
+  return body.map((item) => {
+    if (!isPrediction(item)) return item
+
+    const timeToStation = Math.round((((item.timeToStation - elapsed) % cycle) + cycle) % cycle)
+    const expectedArrival = new Date(now + timeToStation * 1000)
+    const ttlOffset =
+      item.timeToLive && item.expectedArrival ? Date.parse(item.timeToLive) - Date.parse(item.expectedArrival) : NaN
+
+    return {
+      ...item,
+      timeToStation,
+      expectedArrival: expectedArrival.toISOString(),
+      timestamp: new Date(now).toISOString(),
+      ...(Number.isFinite(ttlOffset) && { timeToLive: new Date(expectedArrival.getTime() + ttlOffset).toISOString() }),
+    }
+  }) as T
+}
+
+// The default StopPoint fixture is a list; /StopPoint/{id} expects one object
+// and /StopPoint/{a},{b} expects the matching subset. A group ID nobody
+// recorded stands for a stop area holding every stop in the list.
+function selectStopPoints<T>(body: T, tflPath: string): T {
+  if (!Array.isArray(body)) return body
+  const ids = decodeURIComponent(tflPath.split("/")[2] ?? "").split(",")
+  if (ids.length === 1 && ids[0][3]?.toUpperCase() === "G" && !body.some((sp: { id?: string }) => sp.id === ids[0])) {
+    const [{ commonName, lat, lon }] = body as { commonName: string; lat: number; lon: number }[]
+    return { id: ids[0], naptanId: ids[0], commonName, lat, lon, modes: ["bus"], children: body } as T
+  }
+  const matching = body.filter((sp: { id?: string }) => sp.id && ids.includes(sp.id))
+  const selected = matching.length > 0 ? matching : body.slice(0, ids.length)
+  return (ids.length === 1 ? selected[0] : selected) as T
+}
+
+// /StopPoint/Sms/{code} answers with the one stop carrying that code
+function selectBySmsCode<T>(body: T, tflPath: string): T | null {
+  if (!Array.isArray(body)) return body
+  const smsCode = decodeURIComponent(tflPath.split("/")[3] ?? "")
+  return (body.find((sp: { smsCode?: string }) => sp.smsCode === smsCode) ?? null) as T | null
+}
+
+// Let the shared vehicle fixture stand in for whichever vehicles were asked for
+function withVehicleId<T>(body: T, tflPath: string): T {
+  if (!Array.isArray(body)) return body
+  const vehicleIds = decodeURIComponent(tflPath.split("/")[2] ?? "").split(",")
+  return vehicleIds.flatMap((vehicleId) => body.map((p) => ({ ...p, vehicleId }))) as T
+}
+
+// Same for the sample timetable and whichever line was asked for
+function withLineId<T>(body: T, tflPath: string): T {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return body
+  const lineId = decodeURIComponent(tflPath.split("/")[2] ?? "")
+  return { ...body, lineId, lineName: lineId.toUpperCase() } as T
+}
+
+// Returns null when no fixture covers the request
+
+export async function replayFixture<T>(tflPath: string, params?: TflParams): Promise<T | null> {
+  const exact = await readFixture<T>(fixtureFile(tflPath, params))
+  if (exact) return advancePredictions(exact.body, exact.recordedAt)
+
+  const file = defaultFixtureFile(tflPath)
+  const fallback = await readFixture<T>(file)
+  if (!fallback) return null
+
+  if (tflPath.includes("/Sms/")) return selectBySmsCode(fallback.body, tflPath)
+
+  let body = fallback.body
+  if (file?.endsWith("stop-points.json")) body = selectStopPoints(body, tflPath)
+  if (file?.endsWith("vehicle-arrivals.json")) body = withVehicleId(body, tflPath)
+  if (file?.endsWith("line-timetable.json")) body = withLineId(body, tflPath)
+  return advancePredictions(body, fallback.recordedAt)
+}
+
+export async function recordFixture<T>(tflPath: string, params: TflParams | undefined, body: T) {
+  const fixture: Fixture<T> = {
+    recordedAt: new Date().toISOString(),
+    path: tflPath,
+    params: normalizeParams(params),
+    body,
+  }
+  try {
+    await fs.mkdir(FIXTURES_DIR, { recursive: true })
+    await fs.writeFile(fixtureFile(tflPath, params), JSON.stringify(fixture, null, 2))
+  } catch (error) {
+    // Recording is best effort; never fail the live request because of it
+    console.error("TfL fixture record error:", error)
+  }
+}
@@ -0,0 +1,67 @@
+import { getStopReliability, londonHour, type LineReliability } from "@/lib/tfl/reliability"
+import { getScheduledDepartures } from "@/lib/tfl/timetables"
+
+// How often each line normally comes right now, so the arrivals panel can
+// tell a bunch or an unusually long gap from the line's ordinary service
+
+export interface TypicalHeadway {
+  lineId: string
+  lineName: string
+  minutes: number
+  source: "history" | "timetable"
+}
+
+// Fewer recorded gaps than this in the current hour and we use the whole day
+const MIN_HOURLY_GAPS = 4
+const MIN_GAPS = 10
+// Enough upcoming departures to see the pattern past one odd interval
+const TIMETABLE_SAMPLE = 7
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function fromHistory(line: LineReliability, hour: number): number | null {
+  const thisHour = line.gapsByHour.find((h) => h.hour === hour)
+  if (thisHour && thisHour.gaps >= MIN_HOURLY_GAPS) return thisHour.medianMinutes
+  // Counted from the gaps themselves: overnight and recorder-off gaps aren't among them
+  const gaps = line.gapsByHour.reduce((sum, h) => sum + h.gaps, 0)
+  return line.headway && gaps >= MIN_GAPS ? line.headway.medianMinutes : null
+}
+
+// Recorded history where the stop is watched, the timetable otherwise
+export async function getTypicalHeadways(stopId: string, lineIds: string[]): Promise<TypicalHeadway[]> {
+  const wanted = [...new Set(lineIds.map((id) => id.toLowerCase()))]
+  const hour = londonHour(Date.now())
+  const headways: TypicalHeadway[] = []
+
+  const reliability = await getStopReliability(stopId).catch((error) => {
+    console.error("Reading arrival history for headways failed:", error)
+    return null
+  })
+  for (const lineId of wanted) {
+    // Busiest direction first, which at a single stop is the only one
+    const line = reliability?.lines.find((l) => l.lineId.toLowerCase() === lineId)
+    const minutes = line ? fromHistory(line, hour) : null
+    if (line && minutes !== null) headways.push({ lineId, lineName: line.lineName, minutes, source: "history" })
+  }
+
+  const missing = wanted.filter((id) => !headways.some((h) => h.lineId === id))
+  if (missing.length === 0) return headways
+
+  const scheduled = await getScheduledDepartures(stopId, missing, TIMETABLE_SAMPLE)
+  for (const line of scheduled) {
+    const times = line.departures.map((d) => Date.parse(d))
+    const intervals = times.slice(1).map((time, i) => (time - times[i]) / 60_000)
+    if (intervals.length === 0) continue
+    headways.push({
+      lineId: line.lineId.toLowerCase(),
+      lineName: line.lineName,
+      minutes: Math.round(median(intervals) * 10) / 10,
+      source: "timetable",
+    })
+  }
+
+  return headways
+}
@@ -0,0 +1,183 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+import { getBusArrivals, type BusArrival } from "@/lib/tfl/arrivals"
+
+// Records when buses actually leave watched stops, so we can say how regular a
+// line really is and how far to trust its predictions. A bus counts as gone
+// when its prediction drops out of TfL's feed while it was nearly due.
+//
+// One JSONL file per stop per UTC day under HISTORY_DIR:
+//   data/history/490014270R/2026-10-19.jsonl
+
+export interface Forecast {
+  // When we saw the prediction, and what it said
+  at: string
+  expectedArrival: string
+}
+
+export interface RecordedArrival {
+  stopId: string
+  vehicleId: string
+  lineId: string
+  lineName: string
+  destinationName: string
+  direction: BusArrival["direction"]
+  // The first poll the vehicle was missing from
+  departedAt: string
+  // Predictions for this visit, recorded whenever they moved
+  forecasts: Forecast[]
+}
+
+interface Sighting {
+  arrival: BusArrival
+  lastSeenAt: number
+  forecasts: Forecast[]
+}
+
+const DEFAULT_INTERVAL_S = 30
+// A prediction that vanishes further out than this was withdrawn, not served
+const DUE_WINDOW_S = 180
+// Not seen for this long (failed polls, a restart) and we can't say when it left
+const STALE_AFTER_MS = 10 * 60 * 1000
+// Record a new forecast only when the prediction moves by at least this much
+const FORECAST_STEP_MS = 30_000
+const MAX_FORECASTS = 60
+
+const historyDir = () => path.resolve(process.env.HISTORY_DIR || "data/history")
+
+export const watchedStopIds = () =>
+  (process.env.HISTORY_STOPS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+const historyFile = (stopId: string, day: string) => path.join(historyDir(), stopId, `${day}.jsonl`)
+
+const vehicleKey = (arrival: BusArrival) => `${arrival.vehicleId}:${arrival.lineId}`
+
+// Keep the recorder on globalThis so dev-mode hot reloads don't start a second one
+interface Store {
+  timer?: ReturnType<typeof setInterval>
+  polling: boolean
+  sightings: Map<string, Map<string, Sighting>>
+}
+const globalStore = globalThis as typeof globalThis & { __tflHistory?: Store }
+const store: Store = (globalStore.__tflHistory ??= { polling: false, sightings: new Map() })
+
+function addForecast(sighting: Sighting, now: number) {
+  const { expectedArrival } = sighting.arrival
+  const last = sighting.forecasts[sighting.forecasts.length - 1]
+  if (last && Math.abs(Date.parse(last.expectedArrival) - Date.parse(expectedArrival)) < FORECAST_STEP_MS) return
+  if (sighting.forecasts.length >= MAX_FORECASTS) sighting.forecasts.shift()
+  sighting.forecasts.push({ at: new Date(now).toISOString(), expectedArrival })
+}
+
+// Compares one snapshot with the last and returns the buses that left
+function trackSnapshot(stopId: string, arrivals: BusArrival[], now = Date.now()): RecordedArrival[] {
+  const previous = store.sightings.get(stopId) ?? new Map<string, Sighting>()
+  const current = new Map<string, Sighting>()
+
+  for (const arrival of arrivals) {
+    const key = vehicleKey(arrival)
+    const sighting = previous.get(key) ?? { arrival, lastSeenAt: now, forecasts: [] }
+    sighting.arrival = arrival
+    sighting.lastSeenAt = now
+    addForecast(sighting, now)
+    current.set(key, sighting)
+  }
+
+  const departed: RecordedArrival[] = []
+  for (const [key, sighting] of previous) {
+    if (current.has(key)) continue
+    const wasDue = Date.parse(sighting.arrival.expectedArrival) - now <= DUE_WINDOW_S * 1000
+    if (!wasDue) continue
+    if (now - sighting.lastSeenAt > STALE_AFTER_MS) continue
+
+    const { vehicleId, lineId, lineName, destinationName, direction } = sighting.arrival
+    departed.push({
+      stopId,
+      vehicleId,
+      lineId,
+      lineName,
+      destinationName,
+      direction,
+      departedAt: new Date(now).toISOString(),
+      forecasts: sighting.forecasts,
+    })
+  }
+
+  store.sightings.set(stopId, current)
+  return departed
+}
+
+async function appendArrivals(stopId: string, arrivals: RecordedArrival[]) {
+  if (arrivals.length === 0) return
+  const file = historyFile(stopId, dayKey(new Date(arrivals[0].departedAt)))
+  await mkdir(path.dirname(file), { recursive: true })
+  await appendFile(file, arrivals.map((arrival) => JSON.stringify(arrival)).join("\n") + "\n")
+}
+
+async function poll() {
+  if (store.polling) return
+  store.polling = true
+  try {
+    for (const stopId of watchedStopIds()) {
+      try {
+        const arrivals = await getBusArrivals(stopId)
+        await appendArrivals(stopId, trackSnapshot(stopId, arrivals))
+      } catch (error) {
+        // A failed poll says nothing about which buses left; try again next time
+        console.error(`History poll for ${stopId} failed:`, error)
+      }
+    }
+  } finally {
+    store.polling = false
+  }
+}
+
+// Started once per server from instrumentation.ts; a no-op without HISTORY_STOPS
+export function startHistoryRecorder() {
+  if (store.timer || watchedStopIds().length === 0) return
+
+  const seconds = Number(process.env.HISTORY_INTERVAL_S) || DEFAULT_INTERVAL_S
+  store.timer = setInterval(poll, seconds * 1000)
+  void poll()
+}
+
+const isRecordedArrival = (value: unknown): value is RecordedArrival =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as RecordedArrival).departedAt === "string" &&
+  Array.isArray((value as RecordedArrival).forecasts)
+
+// Everything recorded for a stop in the last `days` days, oldest first
+export async function readHistory(stopId: string, days: number, now = new Date()): Promise<RecordedArrival[]> {
+  const since = now.getTime() - days * 24 * 60 * 60 * 1000
+  const dayKeys = Array.from({ length: days + 1 }, (_, i) => dayKey(new Date(now.getTime() - (days - i) * 86_400_000)))
+
+  const files = await Promise.all(
+    dayKeys.map((day) =>
+      readFile(historyFile(stopId, day), "utf8").catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return ""
+        throw error
+      }),
+    ),
+  )
+
+  return files
+    .flatMap((content) => content.split("\n"))
+    .flatMap((line) => {
+      if (!line.trim()) return []
+      try {
+        const parsed: unknown = JSON.parse(line)
+        // A line cut short by a crash mid-write is skipped, not fatal
+        return isRecordedArrival(parsed) ? [parsed] : []
+      } catch {
+        return []
+      }
+    })
+    .filter((arrival) => Date.parse(arrival.departedAt) >= since)
+    .sort((a, b) => Date.parse(a.departedAt) - Date.parse(b.departedAt))
+}
@@ -0,0 +1,98 @@
+import { getJourneyResults, TflError } from "@/lib/tfl/client"
+import type { Journey, JourneyDisambiguation, JourneyLeg, JourneyPoint } from "@/lib/tfl/types"
+
+// Bus + walking itineraries, trimmed to what the trip planner shows
+
+export interface ItineraryPoint {
+  name: string
+  stopId: string | null
+  stopLetter: string | null
+  lat: number | null
+  lon: number | null
+}
+
+export interface ItineraryLeg {
+  mode: "walking" | "bus"
+  duration: number
+  summary: string
+  departureTime: string
+  arrivalTime: string
+  from: ItineraryPoint
+  to: ItineraryPoint
+  // Every line that can be used for this bus leg
+  lines: string[]
+}
+
+export interface Itinerary {
+  startDateTime: string
+  arrivalDateTime: string
+  duration: number
+  legs: ItineraryLeg[]
+}
+
+const toPoint = (point: JourneyPoint): ItineraryPoint => ({
+  name: point.commonName ?? "",
+  stopId: point.naptanId ?? null,
+  stopLetter: point.stopLetter?.replace(/^->/, "").trim() || null,
+  lat: point.lat ?? null,
+  lon: point.lon ?? null,
+})
+
+const toLeg = (leg: JourneyLeg): ItineraryLeg => ({
+  mode: leg.mode.id === "bus" ? "bus" : "walking",
+  duration: leg.duration,
+  summary: leg.instruction?.summary ?? "",
+  departureTime: leg.departureTime,
+  arrivalTime: leg.arrivalTime,
+  from: toPoint(leg.departurePoint),
+  to: toPoint(leg.arrivalPoint),
+  lines: [
+    ...new Set(
+      (leg.routeOptions ?? []).map((option) => option.lineIdentifier?.name ?? option.name).filter(Boolean),
+    ),
+  ],
+})
+
+const toItinerary = (journey: Journey): Itinerary => ({
+  startDateTime: journey.startDateTime,
+  arrivalDateTime: journey.arrivalDateTime,
+  duration: journey.duration,
+  legs: journey.legs.map(toLeg),
+})
+
+// Best TfL suggestion for an ambiguous free-text location, if any
+function resolveDisambiguation(error: unknown, side: "from" | "to") {
+  if (!(error instanceof TflError) || error.status !== 300) return null
+  try {
+    const body = JSON.parse(error.body) as JourneyDisambiguation
+    const options =
+      side === "from"
+        ? body.fromLocationDisambiguation?.disambiguationOptions
+        : body.toLocationDisambiguation?.disambiguationOptions
+    return options?.[0]?.parameterValue ?? null
+  } catch {
+    return null
+  }
+}
+
+export async function planBusJourney(from: string, to: string): Promise<Itinerary[]> {
+  let origin = from
+  let destination = to
+
+  // TfL answers ambiguous text with 300 + candidates; take the top one for
+  // each side and ask again
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const results = await getJourneyResults(origin, destination)
+      return (results.journeys ?? []).map(toItinerary)
+    } catch (error) {
+      const resolvedTo = resolveDisambiguation(error, "to")
+      const resolvedFrom = resolveDisambiguation(error, "from")
+      if (!resolvedTo && !resolvedFrom) throw error
+      destination = resolvedTo ?? destination
+      origin = resolvedFrom ?? origin
+    }
+  }
+
+  return []
+}
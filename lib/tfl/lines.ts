@@ -0,0 +1,137 @@
+import { cached } from "@/lib/tfl/cache"
+import { getLineRouteSequence, TflError, type TflRequestOptions } from "@/lib/tfl/client"
+import type { MatchedStop, RouteSequence } from "@/lib/tfl/types"
+
+// Normalized line route: ordered stops and drawable geometry per direction
+
+export interface RouteStop {
+  id: string
+  name: string
+  lat: number
+  lon: number
+  stopLetter: string | null
+}
+
+export interface LineDirection {
+  direction: "outbound" | "inbound"
+  name: string
+  stops: RouteStop[]
+  // One or more polylines as [lat, lon] pairs, ready for Leaflet
+  geometry: [number, number][][]
+}
+
+export interface LineRoute {
+  lineId: string
+  lineName: string
+  directions: LineDirection[]
+}
+
+// A line as a search result: ordered stops per direction, no geometry (the map
+// fetches that separately)
+export interface LineSearchResult {
+  type: "line"
+  lineId: string
+  lineName: string
+  directions: Pick<LineDirection, "direction" | "name" | "stops">[]
+}
+
+// Routes change with timetable updates, not minute to minute
+const ROUTE_TTL_MS = 60 * 60 * 1000
+
+const toRouteStop = (stop: MatchedStop): RouteStop => ({
+  id: stop.id,
+  name: stop.name,
+  lat: stop.lat,
+  lon: stop.lon,
+  stopLetter: stop.stopLetter?.replace(/^->/, "").trim() || null,
+})
+
+function parseLineStrings(lineStrings: string[]) {
+  const geometry: [number, number][][] = []
+  for (const raw of lineStrings) {
+    try {
+      const multiLine = JSON.parse(raw) as [number, number][][]
+      for (const line of multiLine) geometry.push(line.map(([lon, lat]) => [lat, lon]))
+    } catch {
+      // skip malformed geometry rather than losing the whole route
+    }
+  }
+  return geometry
+}
+
+function toDirection(sequence: RouteSequence, direction: LineDirection["direction"]): LineDirection {
+  const stopsById = new Map<string, MatchedStop>()
+  for (const branch of sequence.stopPointSequences ?? []) {
+    for (const stop of branch.stopPoint) stopsById.set(stop.id, stop)
+  }
+
+  // The first ordered route is the main service pattern; branches are ignored
+  const mainRoute = sequence.orderedLineRoutes?.[0]
+  const ordered = mainRoute
+    ? mainRoute.naptanIds.map((id) => stopsById.get(id)).filter((s): s is MatchedStop => Boolean(s))
+    : [...stopsById.values()]
+
+  return {
+    direction,
+    name: mainRoute?.name ?? sequence.lineName,
+    stops: ordered.map(toRouteStop),
+    geometry: parseLineStrings(sequence.lineStrings ?? []),
+  }
+}
+
+async function loadLineRoute(lineId: string, options: TflRequestOptions): Promise<LineRoute> {
+  const [outbound, inbound] = await Promise.allSettled([
+    getLineRouteSequence(lineId, "outbound", options),
+    getLineRouteSequence(lineId, "inbound", options),
+  ])
+  if (outbound.status === "rejected" && inbound.status === "rejected") throw outbound.reason
+
+  const directions: LineDirection[] = []
+  let lineName = lineId
+  if (outbound.status === "fulfilled") {
+    lineName = outbound.value.lineName
+    directions.push(toDirection(outbound.value, "outbound"))
+  }
+  if (inbound.status === "fulfilled" && !inbound.value.isOutboundOnly) {
+    lineName = inbound.value.lineName
+    directions.push(toDirection(inbound.value, "inbound"))
+  }
+
+  return { lineId, lineName, directions: directions.filter((d) => d.stops.length > 0 || d.geometry.length > 0) }
+}
+
+// A `signal` bounds the load this call starts; callers joining it share its fate
+export function getLineRoute(lineId: string, options: TflRequestOptions = {}) {
+  const id = lineId.toLowerCase()
+  return cached(`line:${id}:route`, () => loadLineRoute(id, options), () => ROUTE_TTL_MS)
+}
+
+// Bus route numbers: 73, N29, SL6, 24H, W7, EL1, X26...
+const LINE_ID_PATTERN = /^[a-z]{0,2}\d{1,3}[a-z]?$/i
+
+// "Route 73", "bus 73" and "73" all mean line 73
+const stripLinePrefix = (query: string) => query.trim().replace(/^(?:route|bus|line)\s+/i, "")
+
+export function looksLikeLineId(query: string) {
+  return LINE_ID_PATTERN.test(stripLinePrefix(query))
+}
+
+// Null when the query isn't a line TfL knows about
+export async function findLine(query: string, options: TflRequestOptions = {}): Promise<LineSearchResult | null> {
+  if (!looksLikeLineId(query)) return null
+  const lineId = stripLinePrefix(query)
+
+  try {
+    const route = await getLineRoute(lineId, options)
+    if (route.directions.length === 0) return null
+    return {
+      type: "line",
+      lineId: route.lineId,
+      lineName: route.lineName,
+      directions: route.directions.map(({ direction, name, stops }) => ({ direction, name, stops })),
+    }
+  } catch (error) {
+    if (error instanceof TflError && (error.status === 404 || error.status === 400)) return null
+    throw error
+  }
+}
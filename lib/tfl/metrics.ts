@@ -0,0 +1,170 @@
+// Request metrics for this server instance: how long our routes and the TfL
+// calls behind them take, and how they fail. In memory only; a restart or a
+// second instance starts from zero.
+
+type StatusKey = string
+
+interface Series {
+  count: number
+  byStatus: Record<StatusKey, number>
+  // Most recent latencies, oldest overwritten first
+  samples: number[]
+  next: number
+  lastAt: number
+}
+
+export interface LatencySummary {
+  count: number
+  byStatus: Record<StatusKey, number>
+  errors: number
+  p50: number | null
+  p90: number | null
+  p99: number | null
+  lastAt: string | null
+}
+
+interface UpstreamEvent {
+  at: number
+  // Whether TfL itself was healthy; a 404 for a bad stop ID still counts as ok
+  ok: boolean
+}
+
+const MAX_SAMPLES = 500
+// Window for the health check's recent upstream error rate
+const RECENT_WINDOW_MS = 5 * 60 * 1000
+const MAX_RECENT_EVENTS = 2000
+
+// Keep the store on globalThis so dev-mode hot reloads don't drop it
+interface Store {
+  startedAt: number
+  routes: Map<string, Series>
+  upstream: Map<string, Series>
+  recentUpstream: UpstreamEvent[]
+}
+const globalStore = globalThis as typeof globalThis & { __tflMetrics?: Store }
+const store: Store = (globalStore.__tflMetrics ??= {
+  startedAt: Date.now(),
+  routes: new Map(),
+  upstream: new Map(),
+  recentUpstream: [],
+})
+
+function record(series: Map<string, Series>, key: string, status: StatusKey, ms: number) {
+  let entry = series.get(key)
+  if (!entry) {
+    entry = { count: 0, byStatus: {}, samples: [], next: 0, lastAt: 0 }
+    series.set(key, entry)
+  }
+  entry.count++
+  entry.byStatus[status] = (entry.byStatus[status] ?? 0) + 1
+  entry.samples[entry.next] = ms
+  entry.next = (entry.next + 1) % MAX_SAMPLES
+  entry.lastAt = Date.now()
+}
+
+// Journey planner endpoints are free text (place names, postcodes, coordinates)
+const JOURNEY_RESULTS = /^\/Journey\/JourneyResults\/[^/]+\/to\/[^/]+$/
+
+// TfL paths carry stop, line and vehicle IDs; group them by shape instead,
+// e.g. /StopPoint/490014270R/Arrivals -> /StopPoint/{id}/Arrivals
+export function normalizeTflPath(path: string) {
+  if (JOURNEY_RESULTS.test(path)) return "/Journey/JourneyResults/{from}/to/{to}"
+  return path
+    .split("/")
+    .map((segment) => (/\d/.test(segment) || segment.includes(",") ? "{id}" : segment))
+    .join("/")
+}
+
+// Why a TfL call got no response: too slow, unreachable, or called off by us
+export type UpstreamStatus = number | "timeout" | "network" | "aborted"
+
+// Rate limiting, server errors and no answer at all; other 4xx are our
+// requests' fault, and a call we gave up on says nothing about TfL
+const isUpstreamFailure = (status: UpstreamStatus) =>
+  status === "timeout" || status === "network" || (typeof status === "number" && (status === 429 || status >= 500))
+
+// Status is the HTTP status, or why no response came back
+export function recordUpstream(path: string, status: UpstreamStatus, ms: number) {
+  record(store.upstream, normalizeTflPath(path), String(status), ms)
+
+  const now = Date.now()
+  store.recentUpstream.push({ at: now, ok: !isUpstreamFailure(status) })
+  while (
+    store.recentUpstream.length > MAX_RECENT_EVENTS ||
+    (store.recentUpstream.length > 0 && store.recentUpstream[0].at < now - RECENT_WINDOW_MS)
+  ) {
+    store.recentUpstream.shift()
+  }
+}
+
+export function recordRoute(route: string, status: number, ms: number) {
+  record(store.routes, route, String(status), ms)
+}
+
+// Requests one route hands on to another's handler, e.g. /api/v1 to
+// /api/tfl; only the outer route counts them
+const delegated = new WeakSet<Request>()
+
+export function markDelegated<R extends Request>(request: R) {
+  delegated.add(request)
+  return request
+}
+
+// Times a route handler and counts its response statuses
+export function withMetrics<Args extends unknown[]>(route: string, handler: (...args: Args) => Promise<Response>) {
+  return async (...args: Args) => {
+    if (args[0] instanceof Request && delegated.has(args[0])) return handler(...args)
+    const started = performance.now()
+    try {
+      const response = await handler(...args)
+      recordRoute(route, response.status, performance.now() - started)
+      return response
+    } catch (error) {
+      recordRoute(route, 500, performance.now() - started)
+      throw error
+    }
+  }
+}
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? null : Math.round(sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))])
+
+function summarize(entry: Series): LatencySummary {
+  const sorted = [...entry.samples].sort((a, b) => a - b)
+  const errors = Object.entries(entry.byStatus)
+    .filter(([status]) => !(Number(status) < 400))
+    .reduce((sum, [, count]) => sum + count, 0)
+
+  return {
+    count: entry.count,
+    byStatus: { ...entry.byStatus },
+    errors,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    lastAt: entry.lastAt ? new Date(entry.lastAt).toISOString() : null,
+  }
+}
+
+const summarizeAll = (series: Map<string, Series>) =>
+  Object.fromEntries([...series.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, entry]) => [key, summarize(entry)]))
+
+export function getMetrics() {
+  return {
+    startedAt: new Date(store.startedAt).toISOString(),
+    routes: summarizeAll(store.routes),
+    upstream: summarizeAll(store.upstream),
+  }
+}
+
+// Share of TfL calls in the last few minutes that TfL failed; null with no traffic
+export function getRecentUpstreamErrorRate() {
+  const cutoff = Date.now() - RECENT_WINDOW_MS
+  const recent = store.recentUpstream.filter((event) => event.at >= cutoff)
+  if (recent.length === 0) return { calls: 0, errorRate: null }
+  return { calls: recent.length, errorRate: recent.filter((event) => !event.ok).length / recent.length }
+}
+
+export function getUptimeSeconds() {
+  return Math.round((Date.now() - store.startedAt) / 1000)
+}
@@ -0,0 +1,122 @@
+import { getStopPointsByRadius, getStopPointsInBox, type BoundingBox, type TflRequestOptions } from "@/lib/tfl/client"
+import type { AdditionalProperty, StopPoint } from "@/lib/tfl/types"
+
+// Stops around a point or inside a box, shaped for NearbyStopsList
+
+export interface NearbyStop {
+  id: string
+  commonName: string
+  lat: number
+  lon: number
+  distance?: number
+  walkingTime: number
+  indicator?: string
+  // Line names, e.g. ["59", "N68"]
+  lines: string[]
+  additionalProperties: AdditionalProperty[]
+}
+
+export type NearbyArea = { lat: number; lon: number; radius: number } | { bbox: BoundingBox }
+
+export interface NearbyFilter {
+  lines?: string[]
+  limit?: number
+  offset?: number
+}
+
+export interface NearbyPage {
+  stopPoints: NearbyStop[]
+  // Matching stops before paging
+  total: number
+  offset: number
+  limit: number | null
+  // Every line served in the area, filter or not, for building filter chips
+  lines: string[]
+}
+
+export const DEFAULT_NEARBY_RADIUS_M = 1000
+export const MAX_NEARBY_RADIUS_M = 2000
+
+// 1.4 m/s walking speed
+export const walkingMinutes = (metres: number) => Math.round(metres / 1.4 / 60)
+
+const EARTH_RADIUS_M = 6_371_000
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle (haversine) distance; plenty accurate across London
+export function distanceMetres(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLon = toRadians(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h))
+}
+
+// Initial compass bearing from a to b, 0-360 clockwise from north
+export function bearingDegrees(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const dLon = toRadians(b.lon - a.lon)
+  const y = Math.sin(dLon) * Math.cos(toRadians(b.lat))
+  const x =
+    Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat)) -
+    Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLon)
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+type PositionedStop = StopPoint & { lat: number; lon: number }
+
+const hasPosition = (stop: StopPoint): stop is PositionedStop =>
+  typeof stop.lat === "number" && typeof stop.lon === "number"
+
+// Route numbers in natural order: 1, 9, 59, 188, C10, N68
+const compareLines = (a: string, b: string) => a.localeCompare(b, "en", { numeric: true })
+
+export const toNearbyStop = (stop: PositionedStop): NearbyStop => ({
+  id: stop.naptanId || stop.id,
+  commonName: stop.commonName,
+  lat: stop.lat,
+  lon: stop.lon,
+  distance: stop.distance,
+  walkingTime: walkingMinutes(stop.distance ?? 0),
+  indicator: stop.indicator,
+  lines: [...new Set((stop.lines ?? []).map((l) => l.name))].sort(compareLines),
+  // Include additional properties for "towards" information
+  additionalProperties: stop.additionalProperties || [],
+})
+
+export async function getNearbyStops(
+  lat: number | string,
+  lon: number | string,
+  radius: number | string = DEFAULT_NEARBY_RADIUS_M,
+  options: TflRequestOptions = {},
+) {
+  const data = await getStopPointsByRadius(lat, lon, radius, options)
+  return (data.stopPoints ?? []).filter(hasPosition).map(toNearbyStop)
+}
+
+// The box search doesn't report distances, so measure from the box centre
+async function getStopsInBox(bbox: BoundingBox) {
+  const centre = { lat: (bbox.swLat + bbox.neLat) / 2, lon: (bbox.swLon + bbox.neLon) / 2 }
+  const stops = (await getStopPointsInBox(bbox)).filter(hasPosition).map((stop) => {
+    const distance = Math.round(distanceMetres(centre, stop))
+    return toNearbyStop({ ...stop, distance })
+  })
+  return stops.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))
+}
+
+export async function queryNearbyStops(area: NearbyArea, filter: NearbyFilter = {}): Promise<NearbyPage> {
+  const stops = "bbox" in area ? await getStopsInBox(area.bbox) : await getNearbyStops(area.lat, area.lon, area.radius)
+
+  const wanted = new Set((filter.lines ?? []).map((line) => line.toLowerCase()))
+  const matching =
+    wanted.size > 0 ? stops.filter((stop) => stop.lines.some((line) => wanted.has(line.toLowerCase()))) : stops
+
+  const offset = filter.offset ?? 0
+  const limit = filter.limit ?? null
+
+  return {
+    stopPoints: matching.slice(offset, limit === null ? undefined : offset + limit),
+    total: matching.length,
+    offset,
+    limit,
+    lines: [...new Set(stops.flatMap((stop) => stop.lines))].sort(compareLines),
+  }
+}
@@ -0,0 +1,172 @@
+import { readHistory, watchedStopIds, type RecordedArrival } from "@/lib/tfl/history"
+
+// How a stop's lines actually ran, from the recorded history: the gaps
+// between buses, how good the predictions were, and when the worst gaps hit
+
+export interface HeadwaySummary {
+  medianMinutes: number
+  p90Minutes: number
+  worstMinutes: number
+  // When the bus that ended the worst gap left
+  worstAt: string
+  // Gaps under a quarter of the median: buses running in bunches
+  bunchedShare: number
+}
+
+export interface PredictionAccuracy {
+  // How far ahead the prediction was made
+  horizonMinutes: number
+  samples: number
+  meanAbsErrorSeconds: number
+  // Positive when buses came later than predicted
+  medianErrorSeconds: number
+}
+
+export interface HourlyGaps {
+  // London hour the gap started in, 0-23
+  hour: number
+  gaps: number
+  medianMinutes: number
+  worstMinutes: number
+}
+
+export interface LineReliability {
+  lineId: string
+  lineName: string
+  direction: RecordedArrival["direction"]
+  departures: number
+  headway: HeadwaySummary | null
+  accuracy: PredictionAccuracy[]
+  gapsByHour: HourlyGaps[]
+}
+
+export interface StopReliability {
+  stopId: string
+  // Whether the recorder is collecting this stop right now
+  watched: boolean
+  days: number
+  since: string | null
+  departures: number
+  lines: LineReliability[]
+}
+
+export const DEFAULT_RELIABILITY_DAYS = 7
+export const MAX_RELIABILITY_DAYS = 31
+
+// Longer than this and the recorder was off or the line wasn't running
+const MAX_HEADWAY_MIN = 120
+const BUNCHED_SHARE_OF_MEDIAN = 0.25
+const HORIZONS_MIN = [2, 5, 10, 15]
+
+const hourFormat = new Intl.DateTimeFormat("en-GB", { timeZone: "Europe/London", hour: "numeric", hourCycle: "h23" })
+export const londonHour = (time: number) => Number(hourFormat.format(new Date(time)))
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+function percentile(values: number[], p: number) {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]
+}
+
+interface Gap {
+  startedAt: number
+  endedAt: number
+  minutes: number
+}
+
+function gapsBetween(departures: RecordedArrival[]): Gap[] {
+  const gaps: Gap[] = []
+  for (let i = 1; i < departures.length; i++) {
+    const startedAt = Date.parse(departures[i - 1].departedAt)
+    const endedAt = Date.parse(departures[i].departedAt)
+    const minutes = (endedAt - startedAt) / 60_000
+    if (minutes > 0 && minutes <= MAX_HEADWAY_MIN) gaps.push({ startedAt, endedAt, minutes })
+  }
+  return gaps
+}
+
+function summarizeHeadways(gaps: Gap[]): HeadwaySummary | null {
+  if (gaps.length === 0) return null
+  const minutes = gaps.map((gap) => gap.minutes)
+  const median = percentile(minutes, 50)
+  const worst = gaps.reduce((a, b) => (b.minutes > a.minutes ? b : a))
+
+  return {
+    medianMinutes: round1(median),
+    p90Minutes: round1(percentile(minutes, 90)),
+    worstMinutes: round1(worst.minutes),
+    worstAt: new Date(worst.endedAt).toISOString(),
+    bunchedShare: Math.round((minutes.filter((m) => m < median * BUNCHED_SHARE_OF_MEDIAN).length / minutes.length) * 100) / 100,
+  }
+}
+
+// The prediction in force `horizon` minutes before the bus left, against when
+// it did. Departure times are only as precise as the recorder's poll interval.
+function accuracyAt(departures: RecordedArrival[], horizonMinutes: number): PredictionAccuracy | null {
+  const errors = departures.flatMap((departure) => {
+    const departedAt = Date.parse(departure.departedAt)
+    const asOf = departedAt - horizonMinutes * 60_000
+    const forecast = departure.forecasts.filter((f) => Date.parse(f.at) <= asOf).pop()
+    return forecast ? [(departedAt - Date.parse(forecast.expectedArrival)) / 1000] : []
+  })
+  if (errors.length === 0) return null
+
+  return {
+    horizonMinutes,
+    samples: errors.length,
+    meanAbsErrorSeconds: Math.round(errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length),
+    medianErrorSeconds: Math.round(percentile(errors, 50)),
+  }
+}
+
+function gapsByHour(gaps: Gap[]): HourlyGaps[] {
+  const byHour = new Map<number, number[]>()
+  for (const gap of gaps) {
+    const hour = londonHour(gap.startedAt)
+    byHour.set(hour, [...(byHour.get(hour) ?? []), gap.minutes])
+  }
+
+  return [...byHour.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([hour, minutes]) => ({
+      hour,
+      gaps: minutes.length,
+      medianMinutes: round1(percentile(minutes, 50)),
+      worstMinutes: round1(Math.max(...minutes)),
+    }))
+}
+
+function lineReliability(departures: RecordedArrival[]): LineReliability {
+  const { lineId, lineName, direction } = departures[0]
+  const gaps = gapsBetween(departures)
+
+  return {
+    lineId,
+    lineName,
+    direction,
+    departures: departures.length,
+    headway: summarizeHeadways(gaps),
+    accuracy: HORIZONS_MIN.map((h) => accuracyAt(departures, h)).filter((a): a is PredictionAccuracy => a !== null),
+    gapsByHour: gapsByHour(gaps),
+  }
+}
+
+export async function getStopReliability(stopId: string, days = DEFAULT_RELIABILITY_DAYS): Promise<StopReliability> {
+  const history = await readHistory(stopId, days)
+
+  // Each direction of a line is its own service, even at a stop group
+  const byLine = new Map<string, RecordedArrival[]>()
+  for (const departure of history) {
+    const key = `${departure.lineId}:${departure.direction ?? ""}`
+    byLine.set(key, [...(byLine.get(key) ?? []), departure])
+  }
+
+  return {
+    stopId,
+    watched: watchedStopIds().includes(stopId),
+    days,
+    since: history[0]?.departedAt ?? null,
+    departures: history.length,
+    lines: [...byLine.values()].map(lineReliability).sort((a, b) => b.departures - a.departures),
+  }
+}
@@ -0,0 +1,170 @@
+import { cached } from "@/lib/tfl/cache"
+import { getStopPoint, getStopPointBySms, TflError, type TflRequestOptions } from "@/lib/tfl/client"
+import type { StopPoint } from "@/lib/tfl/types"
+
+// One normalized stop record, whichever TfL endpoint it came from
+
+export interface SiblingStop {
+  id: string
+  commonName: string
+  indicator: string | null
+  stopLetter: string | null
+  towards: string | null
+  lat?: number
+  lon?: number
+}
+
+export interface StopDetails {
+  id: string
+  commonName: string
+  lat?: number
+  lon?: number
+  indicator: string | null
+  stopLetter: string | null
+  towards: string | null
+  lines: string[]
+  compassPoint: string | null
+  bearing: number | null
+  smsCode: string | null
+  parentGroupId: string | null
+  siblings: SiblingStop[]
+  // Every bus stop under a group or interchange; empty for a single stop
+  stops: SiblingStop[]
+}
+
+const STOP_TTL_MS = 60 * 60 * 1000
+
+const COMPASS_BEARINGS: Record<string, number> = {
+  N: 0, NE: 45, E: 90, SE: 135, S: 180, SW: 225, W: 270, NW: 315,
+}
+
+// Heuristic: 4th char 'G' => group ID (e.g., 490G...), '0' => actual stop
+export function isGroupId(id: string) {
+  return id.length >= 4 && id[3].toUpperCase() === "G"
+}
+
+export function extractIndicator(raw?: string | null): string | null {
+  if (!raw) return null
+  return raw.replace(/^Stop\s+/i, "").trim() || null
+}
+
+const extractProperty = (stop: StopPoint, key: string) =>
+  (stop.additionalProperties ?? []).find((p) => p.key.toLowerCase() === key.toLowerCase())?.value ?? null
+
+export function extractTowards(stop: StopPoint): string | null {
+  return extractProperty(stop, "Towards")
+}
+
+const stopId = (stop: StopPoint) => stop.naptanId || stop.id
+
+const isBusStop = (stop: StopPoint) => (stop.modes ?? []).includes("bus") && !isGroupId(stopId(stop))
+
+// Depth-first search through a stop area hierarchy
+function findStop(root: StopPoint, id: string, parent: StopPoint | null = null): { stop: StopPoint; parent: StopPoint | null } | null {
+  if (stopId(root) === id || root.id === id) return { stop: root, parent }
+  for (const child of root.children ?? []) {
+    const found = findStop(child, id, root)
+    if (found) return found
+  }
+  return null
+}
+
+const extractStopLetter = (stop: StopPoint) => extractIndicator(stop.stopLetter)?.replace(/^->/, "") || null
+
+// Bus stops anywhere below a stop area; interchanges nest groups inside groups
+function collectBusStops(root: StopPoint): StopPoint[] {
+  return (root.children ?? []).flatMap((child) => (isBusStop(child) ? [child] : collectBusStops(child)))
+}
+
+const toSibling = (stop: StopPoint): SiblingStop => ({
+  id: stopId(stop),
+  commonName: stop.commonName,
+  indicator: extractIndicator(stop.indicator),
+  stopLetter: extractStopLetter(stop),
+  towards: extractTowards(stop),
+  lat: stop.lat,
+  lon: stop.lon,
+})
+
+export function toStopDetails(stop: StopPoint, parent: StopPoint | null = null): StopDetails {
+  const compassPoint = extractProperty(stop, "CompassPoint")
+  const id = stopId(stop)
+
+  return {
+    id,
+    commonName: stop.commonName,
+    lat: stop.lat,
+    lon: stop.lon,
+    indicator: extractIndicator(stop.indicator),
+    stopLetter: extractStopLetter(stop),
+    towards: extractTowards(stop),
+    lines: (stop.lines ?? []).map((l) => l.name),
+    compassPoint,
+    bearing: compassPoint ? (COMPASS_BEARINGS[compassPoint.toUpperCase()] ?? null) : null,
+    smsCode: stop.smsCode ?? null,
+    parentGroupId: parent ? stopId(parent) : null,
+    siblings: (parent?.children ?? []).filter((c) => isBusStop(c) && stopId(c) !== id).map(toSibling),
+    stops: isGroupId(id) ? collectBusStops(stop).map(toSibling) : [],
+  }
+}
+
+// StopPoint/{id} may answer with the stop itself or with its stop area and
+// the requested stop somewhere among the children
+async function loadStopDetails(id: string): Promise<StopDetails | null> {
+  const root = await getStopPoint(id)
+  const found = findStop(root, id)
+  if (!found) return null
+  return toStopDetails(found.stop, found.parent)
+}
+
+export function getStopDetails(id: string) {
+  return cached(`stop:${id}:details`, () => loadStopDetails(id), () => STOP_TTL_MS)
+}
+
+// The bus stops a group or interchange ID stands for; a plain stop is itself
+export async function resolveHubStopIds(id: string): Promise<string[]> {
+  if (!isGroupId(id)) return [id]
+  const details = await getStopDetails(id)
+  return details?.stops.map((stop) => stop.id) ?? []
+}
+
+// 5-digit SMS code from the stop flag, e.g. 47381
+const SMS_CODE_PATTERN = /^\d{5}$/
+// ATCO/NaPTAN code: area prefix, then 0 for a stop or G for a group, e.g. 490008660N
+const ATCO_CODE_PATTERN = /^\d{3}[0G][0-9A-Z]{4,11}$/i
+
+export type StopCodeKind = "sms" | "atco"
+
+export function detectStopCode(query: string): { kind: StopCodeKind; code: string } | null {
+  const code = query.replace(/\s+/g, "")
+  if (SMS_CODE_PATTERN.test(code)) return { kind: "sms", code }
+  if (ATCO_CODE_PATTERN.test(code)) return { kind: "atco", code: code.toUpperCase() }
+  return null
+}
+
+// The exact stop(s) a code refers to: one stop, or a group's bus stops along
+// with the group they belong to. Empty when TfL doesn't know the code.
+export async function resolveStopCode(
+  query: string,
+  options: TflRequestOptions = {},
+): Promise<{ stop: StopPoint; parent: StopPoint | null }[]> {
+  const detected = detectStopCode(query)
+  if (!detected) return []
+
+  try {
+    if (detected.kind === "sms") {
+      return [{ stop: await getStopPointBySms(detected.code, options), parent: null }]
+    }
+
+    const root = await getStopPoint(detected.code, options)
+    const found = findStop(root, detected.code)
+    if (!found) return []
+    if (isGroupId(detected.code)) {
+      return (found.stop.children ?? []).filter(isBusStop).map((child) => ({ stop: child, parent: found.stop }))
+    }
+    return [found]
+  } catch (error) {
+    if (error instanceof TflError && (error.status === 404 || error.status === 400)) return []
+    throw error
+  }
+}
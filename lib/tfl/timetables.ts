@@ -0,0 +1,150 @@
+import { cached } from "@/lib/tfl/cache"
+import { getLineTimetable, TflError } from "@/lib/tfl/client"
+import type { KnownJourney, TimetableResponse, TimetableSchedule } from "@/lib/tfl/types"
+
+// Next timetabled departures from a stop, for when there are no live predictions
+
+export interface ScheduledLine {
+  lineId: string
+  lineName: string
+  departures: string[]
+}
+
+const TIMETABLE_TTL_MS = 6 * 60 * 60 * 1000
+const DEFAULT_DEPARTURES = 3
+const TIME_ZONE = "Europe/London"
+
+const DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+// Whole day names or their usual short forms, never just a prefix: "morning" is not Monday
+const DAY = String.raw`\b(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|weds?|thu(?:rs?)?|fri|sat)s?\b`
+const DAY_WORD = new RegExp(DAY, "g")
+const DAY_RANGE = new RegExp(String.raw`(${DAY})\s*(?:-|–|to)\s*(${DAY})`)
+// The morning half of "Friday Night/Saturday Morning"
+const MORNING = new RegExp(String.raw`${DAY}\s+mornings?\b`, "g")
+
+const dayIndex = (word: string) => DAYS.findIndex((d) => d.startsWith(word.slice(0, 3)))
+
+const isNightSchedule = (name: string) => /night/i.test(name)
+
+// Schedule names are free text: "Monday to Friday", "Mon-Fri", "Saturday",
+// "Sunday and Public Holidays", "Friday Night/Saturday Morning"...
+export function scheduleAppliesTo(name: string, day: number) {
+  const lower = name.toLowerCase()
+  const night = isNightSchedule(lower)
+  // A night belongs to the day it starts, so drop the mornings it runs into:
+  // "Sunday Night/Monday Morning - Thursday Night/Friday Morning" is Sunday to
+  // Thursday, "Mon-Thu Nights" Monday to Thursday, a bare "Night" every day
+  const days = night ? lower.replace(MORNING, " ").replace(/\bnights?\b|\//g, " ") : lower
+
+  const range = days.match(DAY_RANGE)
+  if (range) {
+    const start = dayIndex(range[1])
+    const end = dayIndex(range[2])
+    return start <= end ? day >= start && day <= end : day >= start || day <= end
+  }
+
+  const words = days.match(DAY_WORD) ?? []
+  if (night && words.length === 0) return true
+  return words.some((word) => dayIndex(word) === day)
+}
+
+// Wall-clock parts of an instant in London
+function londonParts(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date)
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") }
+}
+
+// London midnight for the calendar day `offsetDays` from today, as an instant
+function londonMidnight(now: Date, offsetDays: number) {
+  const { year, month, day } = londonParts(now)
+  const utcGuess = Date.UTC(year, month - 1, day + offsetDays)
+  const parts = londonParts(new Date(utcGuess))
+  // London is UTC or UTC+1, so UTC midnight reads as 00:00 or 01:00 there
+  return new Date(utcGuess - (parts.hour * 60 + parts.minute) * 60_000)
+}
+
+const toInstant = (midnight: Date, journey: KnownJourney, night: boolean) => {
+  // Hours run past 24 for journeys after midnight on the same schedule; night
+  // schedules may instead restart at 0, which is still the night that began today
+  const hour = Number(journey.hour) + (night && Number(journey.hour) < 12 ? 24 : 0)
+  return new Date(midnight.getTime() + (hour * 60 + Number(journey.minute)) * 60_000)
+}
+
+function nextDepartures(schedules: TimetableSchedule[], now: Date, count: number) {
+  const departures: Date[] = []
+
+  // Yesterday's late journeys, today's and tomorrow's cover any 24h window
+  for (const offset of [-1, 0, 1]) {
+    const midnight = londonMidnight(now, offset)
+    const weekday = new Date(midnight.getTime() + 12 * 60 * 60_000).getUTCDay()
+    // One day schedule, plus whatever night service starts that evening: a
+    // night route has only the latter, a 24-hour route both
+    const day = schedules.find((s) => !isNightSchedule(s.name) && scheduleAppliesTo(s.name, weekday))
+    const nights = schedules.filter((s) => isNightSchedule(s.name) && scheduleAppliesTo(s.name, weekday))
+
+    for (const schedule of day ? [day, ...nights] : nights) {
+      const night = isNightSchedule(schedule.name)
+      for (const journey of schedule.knownJourneys) {
+        const time = toInstant(midnight, journey, night)
+        if (time > now) departures.push(time)
+      }
+    }
+  }
+
+  // A night schedule repeats the journeys the day schedule lists past 24:00
+  return departures
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter((d, i, all) => i === 0 || d.getTime() !== all[i - 1].getTime())
+    .slice(0, count)
+    .map((d) => d.toISOString())
+}
+
+function loadTimetable(lineId: string, stopId: string) {
+  return cached<TimetableResponse | null>(
+    `line:${lineId}:timetable:${stopId}`,
+    async () => {
+      try {
+        return await getLineTimetable(lineId, stopId)
+      } catch (error) {
+        // Lines that don't call here in this direction simply have no timetable
+        if (error instanceof TflError && (error.status === 404 || error.status === 400)) return null
+        throw error
+      }
+    },
+    () => TIMETABLE_TTL_MS,
+  )
+}
+
+export async function getScheduledDepartures(
+  stopId: string,
+  lineIds: string[],
+  count = DEFAULT_DEPARTURES,
+): Promise<ScheduledLine[]> {
+  const now = new Date()
+  const results = await Promise.all(
+    [...new Set(lineIds.map((id) => id.toLowerCase()))].map(async (lineId) => {
+      const timetable = await loadTimetable(lineId, stopId)
+      if (!timetable) return null
+
+      const schedules = (timetable.timetable?.routes ?? []).flatMap((r) => r.schedules ?? [])
+      return {
+        lineId: timetable.lineId ?? lineId,
+        lineName: timetable.lineName ?? lineId,
+        departures: nextDepartures(schedules, now, count),
+      }
+    }),
+  )
+
+  return results
+    .filter((line): line is ScheduledLine => line !== null && line.departures.length > 0)
+    .sort((a, b) => Date.parse(a.departures[0]) - Date.parse(b.departures[0]))
+}
@@ -0,0 +1,209 @@
+// Response models for the parts of the TfL Unified API we consume.
+// Only the fields we read are typed; TfL sends many more.
+
+export interface AdditionalProperty {
+  category?: string
+  key: string
+  value: string
+}
+
+export interface LineIdentifier {
+  id: string
+  name: string
+  uri?: string
+}
+
+export interface StopPoint {
+  id: string
+  naptanId?: string
+  commonName: string
+  lat?: number
+  lon?: number
+  distance?: number
+  modes?: string[]
+  indicator?: string
+  stopLetter?: string
+  smsCode?: string
+  stopType?: string
+  hubNaptanCode?: string
+  lines?: LineIdentifier[]
+  additionalProperties?: AdditionalProperty[]
+  children?: StopPoint[]
+}
+
+export interface StopPointSearchResponse {
+  query?: string
+  total?: number
+  matches?: StopPoint[]
+}
+
+export interface StopPointsResponse {
+  centrePoint?: number[]
+  stopPoints?: StopPoint[]
+  pageSize?: number
+  total?: number
+  page?: number
+}
+
+export interface Prediction {
+  id: string
+  operationType?: number
+  vehicleId: string
+  naptanId: string
+  stationName: string
+  lineId: string
+  lineName: string
+  platformName?: string
+  direction?: string
+  bearing?: string
+  destinationNaptanId?: string
+  destinationName: string
+  timestamp?: string
+  timeToStation: number
+  currentLocation?: string
+  towards?: string
+  expectedArrival: string
+  timeToLive?: string
+  modeName?: string
+}
+
+// Vehicle/{id}/Arrivals returns predictions for every stop the vehicle will
+// call at. Some feeds also attach the vehicle's last reported position.
+export interface VehiclePrediction extends Prediction {
+  lat?: number
+  lon?: number
+}
+
+export interface MatchedStop {
+  id: string
+  name: string
+  lat: number
+  lon: number
+  stopLetter?: string
+  towards?: string
+  topMostParentId?: string
+}
+
+export interface StopPointSequence {
+  lineId: string
+  branchId: number
+  direction: string
+  stopPoint: MatchedStop[]
+}
+
+export interface OrderedRoute {
+  name: string
+  naptanIds: string[]
+  serviceType?: string
+}
+
+export interface RouteSequence {
+  lineId: string
+  lineName: string
+  direction: string
+  isOutboundOnly?: boolean
+  mode?: string
+  // Each entry is a JSON-encoded [[[lon, lat], ...]] multi-line-string
+  lineStrings: string[]
+  stopPointSequences: StopPointSequence[]
+  orderedLineRoutes: OrderedRoute[]
+}
+
+export interface LineStatus {
+  statusSeverity: number
+  statusSeverityDescription: string
+  reason?: string
+  disruption?: {
+    category?: string
+    categoryDescription?: string
+    description?: string
+    closureText?: string
+  }
+}
+
+export interface Line {
+  id: string
+  name: string
+  modeName?: string
+  lineStatuses?: LineStatus[]
+}
+
+export interface DisruptedPoint {
+  atcoCode: string
+  commonName?: string
+  type?: string
+  mode?: string
+  description?: string
+  appearance?: string
+  fromDate?: string
+  toDate?: string
+}
+
+export interface JourneyPoint {
+  naptanId?: string
+  commonName?: string
+  stopLetter?: string
+  lat?: number
+  lon?: number
+}
+
+export interface JourneyLeg {
+  duration: number
+  departureTime: string
+  arrivalTime: string
+  instruction?: { summary?: string; detailed?: string }
+  mode: { id: string; name: string }
+  departurePoint: JourneyPoint
+  arrivalPoint: JourneyPoint
+  routeOptions?: { name: string; lineIdentifier?: LineIdentifier; directions?: string[] }[]
+}
+
+export interface Journey {
+  startDateTime: string
+  arrivalDateTime: string
+  duration: number
+  legs: JourneyLeg[]
+}
+
+export interface JourneyResults {
+  journeys?: Journey[]
+}
+
+// Sent with HTTP 300 when a free-text location matches several places
+export interface JourneyDisambiguation {
+  toLocationDisambiguation?: {
+    matchStatus?: string
+    disambiguationOptions?: { parameterValue: string; place?: { commonName?: string } }[]
+  }
+  fromLocationDisambiguation?: JourneyDisambiguation["toLocationDisambiguation"]
+}
+
+export interface KnownJourney {
+  hour: string
+  minute: string
+  intervalId?: number
+}
+
+export interface TimetableSchedule {
+  name: string
+  knownJourneys: KnownJourney[]
+}
+
+export interface TimetableResponse {
+  lineId: string
+  lineName: string
+  direction?: string
+  timetable?: {
+    departureStopId?: string
+    routes?: { schedules?: TimetableSchedule[] }[]
+  }
+}
+
+export interface Place {
+  id: string
+  commonName: string
+  placeType: string
+  lat: number
+  lon: number
+  url?: string
+}
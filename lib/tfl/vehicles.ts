@@ -0,0 +1,57 @@
+import { getCachedVehicleArrivals } from "@/lib/tfl/cache"
+import type { VehiclePrediction } from "@/lib/tfl/types"
+
+// A single vehicle's remaining journey, in calling order
+
+export interface VehicleStop {
+  naptanId: string
+  stationName: string
+  platformName: string | null
+  timeToStation: number
+  expectedArrival: string
+}
+
+export interface VehicleJourney {
+  vehicleId: string
+  lineId: string
+  lineName: string
+  destinationName: string
+  direction: string | null
+  currentLocation: string | null
+  position: { lat: number; lon: number; bearing: number } | null
+  stops: VehicleStop[]
+}
+
+const toVehicleStop = (p: VehiclePrediction): VehicleStop => ({
+  naptanId: p.naptanId,
+  stationName: p.stationName,
+  platformName: p.platformName?.trim() || null,
+  timeToStation: p.timeToStation,
+  expectedArrival: p.expectedArrival,
+})
+
+export async function getVehicleJourney(vehicleId: string): Promise<VehicleJourney | null> {
+  const predictions = await getCachedVehicleArrivals(vehicleId)
+  if (!predictions || predictions.length === 0) return null
+
+  const ordered = [...predictions].sort((a, b) => a.timeToStation - b.timeToStation)
+  const next = ordered[0]
+  const located = ordered.find((p) => p.lat && p.lon)
+
+  return {
+    vehicleId: next.vehicleId,
+    lineId: next.lineId,
+    lineName: next.lineName,
+    destinationName: next.destinationName,
+    direction: next.direction ?? null,
+    currentLocation: next.currentLocation?.trim() || null,
+    position:
+      located?.lat && located.lon
+        ? { lat: located.lat, lon: located.lon, bearing: Number(located.bearing) || 0 }
+        : null,
+    // A vehicle can be predicted at the same stop twice on loop routes; keep the first
+    stops: ordered
+      .filter((p, i) => ordered.findIndex((q) => q.naptanId === p.naptanId) === i)
+      .map(toVehicleStop),
+  }
+}
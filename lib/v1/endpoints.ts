@@ -0,0 +1,90 @@
+import { DEFAULT_NEARBY_RADIUS_M, MAX_NEARBY_RADIUS_M } from "@/lib/tfl/nearby"
+import type { OneOfGroups, ParamSpecs } from "@/lib/v1/params"
+
+// The public /api/v1 surface. Each endpoint validates its query, then hands
+// the request to the internal /api/tfl route it fronts.
+
+export interface V1Endpoint {
+  path: string
+  internalPath: string
+  summary: string
+  description: string
+  params: ParamSpecs
+  oneOf?: OneOfGroups
+  // v1 parameter names that the internal route spells differently
+  rename?: Record<string, string>
+  // Component schema of a successful response
+  response: string
+}
+
+// No flags: the OpenAPI document publishes only a pattern's source
+const STOP_ID = /^[0-9A-Za-z]{4,16}$/
+const LINE_ID = /^[0-9A-Za-z-]{1,12}$/
+
+const coordinates = {
+  lat: { type: "number", min: -90, max: 90, description: "Latitude in WGS84 degrees", example: "51.5033" },
+  lon: { type: "number", min: -180, max: 180, description: "Longitude in WGS84 degrees", example: "-0.1125" },
+} as const
+
+export const V1_ENDPOINTS = {
+  arrivals: {
+    path: "/api/v1/arrivals",
+    internalPath: "/api/tfl/arrivals",
+    summary: "Live arrivals at a stop, a list of stops or a stop group",
+    description: "Predictions soonest first. A stop group ID (4th character G) covers every bus stop in the group.",
+    params: {
+      stopId: { type: "string", pattern: STOP_ID, description: "NaPTAN ID of a stop or stop group", example: "490014270R" },
+      stopIds: { type: "list", itemPattern: STOP_ID, maxItems: 20, description: "Comma-separated NaPTAN stop IDs" },
+      groupId: { type: "string", pattern: /^\d{3}[Gg][0-9A-Za-z]{4,12}$/, description: "NaPTAN stop group ID" },
+    },
+    oneOf: [["stopId"], ["stopIds"], ["groupId"]],
+    response: "ArrivalList",
+  },
+  nearby: {
+    path: "/api/v1/nearby",
+    internalPath: "/api/tfl/nearby",
+    summary: "Bus stops around a point or inside a box",
+    description: "Nearest first around a point; TfL order inside a box. Paged with limit and offset.",
+    params: {
+      ...coordinates,
+      radius: {
+        type: "number",
+        min: 50,
+        max: MAX_NEARBY_RADIUS_M,
+        integer: true,
+        default: DEFAULT_NEARBY_RADIUS_M,
+        description: "Search radius in metres, ignored with bbox",
+      },
+      bbox: { type: "bbox", description: "swLat,swLon,neLat,neLon", example: "51.50,-0.12,51.51,-0.10" },
+      lines: { type: "list", itemPattern: LINE_ID, maxItems: 20, description: "Only stops served by these lines" },
+      limit: { type: "number", min: 1, max: 100, integer: true, description: "Page size" },
+      offset: { type: "number", min: 0, integer: true, description: "Stops to skip" },
+    },
+    oneOf: [["lat", "lon"], ["bbox"]],
+    rename: { lon: "lng" },
+    response: "NearbyPage",
+  },
+  search: {
+    path: "/api/v1/search",
+    internalPath: "/api/tfl/search",
+    summary: "Find stops, routes and places by name or code",
+    description:
+      "Matches stop names, SMS and ATCO stop codes, route numbers, postcodes and place names. " +
+      "With lat and lon, stops within walking distance rank first.",
+    params: {
+      query: { type: "string", required: true, minLength: 1, maxLength: 100, description: "What to search for", example: "Waterloo" },
+      ...coordinates,
+    },
+    response: "SearchResults",
+  },
+  buslocation: {
+    path: "/api/v1/buslocation",
+    internalPath: "/api/tfl/buslocation",
+    summary: "Where the buses heading for a stop are now",
+    description: "Reported positions where TfL has them, otherwise estimated along the route. Unplaced vehicles are listed under failures.",
+    params: {
+      stopId: { type: "string", required: true, pattern: STOP_ID, description: "NaPTAN ID of the stop", example: "490014270R" },
+    },
+    response: "BusLocations",
+  },
+} satisfies Record<string, V1Endpoint>
@@ -0,0 +1,263 @@
+import { V1_ENDPOINTS, type V1Endpoint } from "@/lib/v1/endpoints"
+import type { ParamSpec } from "@/lib/v1/params"
+import { API_KEY_HEADER } from "@/lib/v1/route"
+
+// OpenAPI 3.1 description of /api/v1. Parameters come from the same specs the
+// routes validate with; response schemas are written out by hand and have to
+// follow the types in lib/tfl when those change.
+
+type Schema = Record<string, unknown>
+
+const nullable = (type: string): Schema => ({ type: [type, "null"] })
+const stringArray: Schema = { type: "array", items: { type: "string" } }
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+
+function paramSchema(spec: ParamSpec): Schema {
+  switch (spec.type) {
+    case "string":
+      return {
+        type: "string",
+        ...(spec.pattern && { pattern: spec.pattern.source }),
+        ...(spec.minLength !== undefined && { minLength: spec.minLength }),
+        ...(spec.maxLength !== undefined && { maxLength: spec.maxLength }),
+      }
+    case "number":
+      return {
+        type: spec.integer ? "integer" : "number",
+        ...(spec.min !== undefined && { minimum: spec.min }),
+        ...(spec.max !== undefined && { maximum: spec.max }),
+        ...(spec.default !== undefined && { default: spec.default }),
+      }
+    case "list":
+      return { type: "array", items: { type: "string", pattern: spec.itemPattern.source }, maxItems: spec.maxItems }
+    case "bbox":
+      return { type: "array", items: { type: "number" }, minItems: 4, maxItems: 4 }
+  }
+}
+
+const parameters = (endpoint: V1Endpoint) =>
+  Object.entries(endpoint.params).map(([name, spec]) => ({
+    name,
+    in: "query",
+    required: spec.required ?? false,
+    description: spec.description,
+    schema: paramSchema(spec),
+    // Lists and boxes are comma-separated, not repeated
+    ...((spec.type === "list" || spec.type === "bbox") && { style: "form", explode: false }),
+    ...(spec.example !== undefined && { example: spec.example }),
+  }))
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+})
+
+function operation(endpoint: V1Endpoint) {
+  const alternatives = endpoint.oneOf?.map((group) => group.join(" + ")).join(", or ")
+  return {
+    get: {
+      summary: endpoint.summary,
+      description: alternatives ? `${endpoint.description} Provide ${alternatives}.` : endpoint.description,
+      parameters: parameters(endpoint),
+      responses: {
+        200: { description: "OK", content: { "application/json": { schema: ref(endpoint.response) } } },
+        400: errorResponse("Invalid or unknown query parameters"),
+        401: errorResponse(`Missing or wrong ${API_KEY_HEADER}, when keys are configured`),
+        404: errorResponse("TfL doesn't know the stop"),
+        429: errorResponse("TfL is rate limiting; see Retry-After"),
+        502: errorResponse("TfL failed or is unreachable"),
+        504: errorResponse("TfL took too long to answer"),
+      },
+    },
+  }
+}
+
+const BusArrival: Schema = {
+  type: "object",
+  required: ["version", "id", "vehicleId", "lineId", "lineName", "destinationName", "timeToStation", "expectedArrival", "naptanId"],
+  properties: {
+    version: { type: "integer", const: 2 },
+    id: { type: "string" },
+    vehicleId: { type: "string" },
+    lineId: { type: "string" },
+    lineName: { type: "string" },
+    destinationName: { type: "string" },
+    timeToStation: { type: "integer", description: "Seconds until the bus reaches the stop" },
+    expectedArrival: { type: "string", format: "date-time" },
+    timeToLive: { ...nullable("string"), format: "date-time" },
+    naptanId: { type: "string", description: "The stop predicted for; differs from the requested one for groups" },
+    stationName: { type: "string" },
+    platformName: nullable("string"),
+    direction: { enum: ["inbound", "outbound", null] },
+    towards: nullable("string"),
+    currentLocation: nullable("string"),
+    bearing: nullable("number"),
+  },
+}
+
+const NearbyStop: Schema = {
+  type: "object",
+  required: ["id", "commonName", "lat", "lon", "walkingTime", "lines"],
+  properties: {
+    id: { type: "string" },
+    commonName: { type: "string" },
+    lat: { type: "number" },
+    lon: { type: "number" },
+    distance: { type: "number", description: "Metres from the requested point" },
+    walkingTime: { type: "integer", description: "Minutes" },
+    indicator: { type: "string" },
+    lines: stringArray,
+    additionalProperties: { type: "array", items: { type: "object" } },
+  },
+}
+
+const BusLocation: Schema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    lineName: { type: "string" },
+    vehicleId: { type: "string" },
+    lat: { type: "number" },
+    lon: { type: "number" },
+    destination: { type: "string" },
+    bearing: { type: "number" },
+    timeToStation: { type: "integer" },
+    expectedArrival: { type: "string", format: "date-time" },
+    positionSource: { enum: ["reported", "estimated"] },
+  },
+}
+
+const SCHEMAS: Record<string, Schema> = {
+  BusArrival,
+  ArrivalList: { type: "array", items: ref("BusArrival") },
+  NearbyStop,
+  NearbyPage: {
+    type: "object",
+    properties: {
+      stopPoints: { type: "array", items: ref("NearbyStop") },
+      total: { type: "integer", description: "Matching stops before paging" },
+      offset: { type: "integer" },
+      limit: nullable("integer"),
+      lines: { ...stringArray, description: "Every line served in the area" },
+    },
+  },
+  SearchResults: {
+    type: "object",
+    properties: {
+      matches: {
+        type: "array",
+        items: {
+          type: "object",
+          // Everything but the coordinates, which TfL doesn't always have
+          required: [
+            "id",
+            "commonName",
+            "distance",
+            "walkingTime",
+            "indicator",
+            "towards",
+            "lines",
+            "parentGroupId",
+            "smsCode",
+            "exact",
+            "type",
+          ],
+          properties: {
+            id: { type: "string" },
+            commonName: { type: "string" },
+            lat: { type: "number" },
+            lon: { type: "number" },
+            distance: nullable("integer"),
+            walkingTime: nullable("integer"),
+            indicator: nullable("string"),
+            towards: nullable("string"),
+            lines: stringArray,
+            parentGroupId: nullable("string"),
+            smsCode: nullable("string"),
+            exact: { type: "boolean", description: "Matched an SMS or ATCO code exactly" },
+            type: { const: "stop" },
+          },
+        },
+      },
+      lines: { type: "array", items: { type: "object" } },
+      places: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            kind: { enum: ["postcode", "place"] },
+            lat: { type: "number" },
+            lon: { type: "number" },
+            stops: { type: "array", items: ref("NearbyStop") },
+          },
+        },
+      },
+    },
+  },
+  BusLocation,
+  BusLocations: {
+    type: "object",
+    properties: {
+      buses: { type: "array", items: ref("BusLocation") },
+      failures: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            vehicleIds: stringArray,
+            reason: { enum: ["upstream-error", "no-position"] },
+            error: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["code", "message", "upstreamStatus", "retryAfter"],
+        properties: {
+          code: {
+            enum: [
+              "INVALID_PARAMS",
+              "UNAUTHORIZED",
+              "STOP_NOT_FOUND",
+              "VEHICLE_NOT_FOUND",
+              "NOT_FOUND",
+              "RATE_LIMITED",
+              "UPSTREAM_TIMEOUT",
+              "UPSTREAM_ERROR",
+              "INTERNAL_ERROR",
+            ],
+          },
+          message: { type: "string" },
+          upstreamStatus: { ...nullable("integer"), description: "What TfL answered with" },
+          retryAfter: { ...nullable("integer"), description: "Seconds to wait before retrying" },
+        },
+      },
+    },
+  },
+}
+
+export function buildOpenApiDocument() {
+  const endpoints: V1Endpoint[] = Object.values(V1_ENDPOINTS)
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "London bus time checker API",
+      version: "1.0.0",
+      description: "Live TfL bus arrivals, stops and vehicle positions.",
+    },
+    paths: Object.fromEntries(endpoints.map((endpoint) => [endpoint.path, operation(endpoint)])),
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: { apiKey: { type: "apiKey", in: "header", name: API_KEY_HEADER } },
+    },
+    // Only enforced when the server has keys configured
+    security: [{}, { apiKey: [] }],
+  }
+}
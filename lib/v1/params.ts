@@ -0,0 +1,101 @@
+// Query parameter rules for the public /api/v1 routes. The same definitions
+// validate requests and describe the parameters in the OpenAPI document.
+
+interface BaseParam {
+  description: string
+  required?: boolean
+  example?: string
+}
+
+export type ParamSpec =
+  | (BaseParam & { type: "string"; pattern?: RegExp; minLength?: number; maxLength?: number })
+  | (BaseParam & { type: "number"; min?: number; max?: number; integer?: boolean; default?: number })
+  | (BaseParam & { type: "list"; itemPattern: RegExp; maxItems: number })
+  | (BaseParam & { type: "bbox" })
+
+export type ParamSpecs = Record<string, ParamSpec>
+
+export type ParamValue = string | number | string[] | [number, number, number, number]
+
+// The request is valid when every parameter of at least one group is present,
+// e.g. [["lat", "lon"], ["bbox"]]
+export type OneOfGroups = string[][]
+
+export type Validation = { ok: true; values: Record<string, ParamValue> } | { ok: false; message: string }
+
+type Parsed = { value: ParamValue } | { error: string }
+
+function parseParam(name: string, raw: string, spec: ParamSpec): Parsed {
+  switch (spec.type) {
+    case "string": {
+      const value = raw.trim()
+      if (spec.minLength !== undefined && value.length < spec.minLength) {
+        return { error: `${name} must be at least ${spec.minLength} characters` }
+      }
+      if (spec.maxLength !== undefined && value.length > spec.maxLength) {
+        return { error: `${name} must be at most ${spec.maxLength} characters` }
+      }
+      if (spec.pattern && !spec.pattern.test(value)) return { error: `${name} is not in the expected format` }
+      return { value }
+    }
+    case "number": {
+      const value = Number(raw)
+      if (raw.trim() === "" || !Number.isFinite(value)) return { error: `${name} must be a number` }
+      if (spec.integer && !Number.isInteger(value)) return { error: `${name} must be a whole number` }
+      if (spec.min !== undefined && value < spec.min) return { error: `${name} must be at least ${spec.min}` }
+      if (spec.max !== undefined && value > spec.max) return { error: `${name} must be at most ${spec.max}` }
+      return { value }
+    }
+    case "list": {
+      const items = raw.split(",").map((item) => item.trim()).filter(Boolean)
+      if (items.length === 0) return { error: `${name} must list at least one value` }
+      if (items.length > spec.maxItems) return { error: `${name} takes at most ${spec.maxItems} values` }
+      const bad = items.find((item) => !spec.itemPattern.test(item))
+      return bad ? { error: `${name} has an invalid value: ${bad}` } : { value: items }
+    }
+    case "bbox": {
+      const parts = raw.split(",").map(Number)
+      if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+        return { error: `${name} must be swLat,swLon,neLat,neLon` }
+      }
+      const [swLat, swLon, neLat, neLon] = parts
+      if (swLat >= neLat || swLon >= neLon) {
+        return { error: `${name} must have its south-west corner south-west of its north-east corner` }
+      }
+      if ([swLat, neLat].some((lat) => Math.abs(lat) > 90) || [swLon, neLon].some((lon) => Math.abs(lon) > 180)) {
+        return { error: `${name} is outside valid coordinates` }
+      }
+      return { value: [swLat, swLon, neLat, neLon] }
+    }
+  }
+}
+
+// Unknown parameters are rejected too, so a typo ("raduis") fails loudly
+// instead of silently falling back to a default
+export function validateParams(searchParams: URLSearchParams, specs: ParamSpecs, oneOf: OneOfGroups = []): Validation {
+  const values: Record<string, ParamValue> = {}
+
+  for (const name of new Set(searchParams.keys())) {
+    if (!(name in specs)) return { ok: false, message: `Unknown parameter: ${name}` }
+    if (searchParams.getAll(name).length > 1) return { ok: false, message: `${name} may only be given once` }
+  }
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const raw = searchParams.get(name)
+    if (raw === null) {
+      if (spec.required) return { ok: false, message: `${name} is required` }
+      if (spec.type === "number" && spec.default !== undefined) values[name] = spec.default
+      continue
+    }
+    const parsed = parseParam(name, raw, spec)
+    if ("error" in parsed) return { ok: false, message: parsed.error }
+    values[name] = parsed.value
+  }
+
+  if (oneOf.length > 0 && !oneOf.some((group) => group.every((name) => searchParams.has(name)))) {
+    const options = oneOf.map((group) => group.join(" + ")).join(", or ")
+    return { ok: false, message: `Provide ${options}` }
+  }
+
+  return { ok: true, values }
+}
@@ -0,0 +1,86 @@
+import { timingSafeEqual } from "node:crypto"
+import { NextRequest } from "next/server"
+import { apiError, invalidParams } from "@/lib/tfl/errors"
+import { markDelegated, withMetrics } from "@/lib/tfl/metrics"
+import type { V1Endpoint } from "@/lib/v1/endpoints"
+import { validateParams } from "@/lib/v1/params"
+
+// Access control for /api/v1: optional API keys and a CORS allow-list, both
+// from the environment. Without keys the API is unauthenticated: anyone can
+// call it, as they can the /api/tfl routes behind it. CORS only decides which
+// web pages may read responses in a browser; it stops no script or server.
+
+export const API_KEY_HEADER = "X-API-Key"
+
+const parseList = (raw: string | undefined) =>
+  (raw ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const apiKeys = () => parseList(process.env.API_V1_KEYS)
+const corsOrigins = () => parseList(process.env.API_V1_CORS_ORIGINS)
+
+const keyMatches = (given: string, key: string) =>
+  given.length === key.length && timingSafeEqual(Buffer.from(given), Buffer.from(key))
+
+function hasValidKey(request: Request) {
+  const keys = apiKeys()
+  if (keys.length === 0) return true
+  const given = request.headers.get(API_KEY_HEADER)
+  return given !== null && keys.some((key) => keyMatches(given, key))
+}
+
+export function corsHeaders(origin: string | null): Record<string, string> {
+  const allowed = corsOrigins()
+  const allowOrigin = allowed.includes("*") ? "*" : origin && allowed.includes(origin) ? origin : null
+  return {
+    Vary: `Origin, ${API_KEY_HEADER}`,
+    ...(allowOrigin && {
+      "Access-Control-Allow-Origin": allowOrigin,
+      "Access-Control-Expose-Headers": "Retry-After",
+    }),
+  }
+}
+
+function withHeaders(response: Response, extra: Record<string, string>) {
+  const headers = new Headers(response.headers)
+  for (const [name, value] of Object.entries(extra)) headers.set(name, value)
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+}
+
+// GET validates, checks the key and delegates to the internal handler with
+// the validated (and renamed) parameters; OPTIONS answers CORS preflights
+export function v1Route(endpoint: V1Endpoint, handler: (request: NextRequest) => Promise<Response>) {
+  const GET = withMetrics(endpoint.path, async (request: NextRequest) => {
+    const cors = corsHeaders(request.headers.get("origin"))
+
+    if (!hasValidKey(request)) {
+      return withHeaders(apiError("UNAUTHORIZED", `A valid ${API_KEY_HEADER} header is required`), cors)
+    }
+
+    const validation = validateParams(request.nextUrl.searchParams, endpoint.params, endpoint.oneOf)
+    if (!validation.ok) return withHeaders(invalidParams(validation.message), cors)
+
+    const url = new URL(endpoint.internalPath, request.url)
+    for (const [name, value] of Object.entries(validation.values)) {
+      url.searchParams.set(endpoint.rename?.[name] ?? name, Array.isArray(value) ? value.join(",") : String(value))
+    }
+
+    const response = await handler(markDelegated(new NextRequest(url, { headers: request.headers })))
+    return withHeaders(response, cors)
+  })
+
+  const OPTIONS = async (request: NextRequest) =>
+    new Response(null, {
+      status: 204,
+      headers: {
+        ...corsHeaders(request.headers.get("origin")),
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+        "Access-Control-Allow-Headers": API_KEY_HEADER,
+        "Access-Control-Max-Age": "86400",
+      },
+    })
+
+  return { GET, OPTIONS }
+}